@@ -0,0 +1,81 @@
+import { QueryComposerError } from './errors';
+import type { AggregateFunction, AggregateSpec } from './types';
+
+/**
+ * Aggregate function → SQL function name
+ */
+const AGGREGATE_SQL: Record<AggregateFunction, string> = {
+  count: 'COUNT',
+  count_distinct: 'COUNT',
+  sum: 'SUM',
+  avg: 'AVG',
+  min: 'MIN',
+  max: 'MAX',
+  array_agg: 'ARRAY_AGG',
+  string_agg: 'STRING_AGG',
+  bool_and: 'BOOL_AND',
+  bool_or: 'BOOL_OR',
+};
+
+// fn(column) or fn(*) — column may be qualified (table.column)
+const AGGREGATE_EXPR_RE = /^([a-z_]+)\((\*|[a-zA-Z0-9_.]+)\)$/;
+
+/**
+ * Check whether a name is a supported aggregate function
+ */
+export function isAggregateFunction(name: string): name is AggregateFunction {
+  return Object.prototype.hasOwnProperty.call(AGGREGATE_SQL, name);
+}
+
+/**
+ * Parse the `fn(column)` shorthand into an aggregate spec.
+ * Returns null when the string is not an aggregate expression.
+ *
+ * @example
+ * ```typescript
+ * parseAggregateExpression('sum(amount)');         // { fn: 'sum', column: 'amount' }
+ * parseAggregateExpression('count_distinct(user_id)'); // { fn: 'count_distinct', column: 'user_id' }
+ * parseAggregateExpression('amount');              // null
+ * ```
+ */
+export function parseAggregateExpression(expr: string): AggregateSpec | null {
+  const match = AGGREGATE_EXPR_RE.exec(expr);
+  if (!match) return null;
+  if (!isAggregateFunction(match[1])) {
+    throw new QueryComposerError(`Invalid aggregate function '${match[1]}'`);
+  }
+  return { fn: match[1], column: match[2] };
+}
+
+/**
+ * Build an aggregate expression with ? placeholders.
+ * The column must already be validated by the caller.
+ *
+ * @example
+ * ```typescript
+ * buildAggregate({ fn: 'count_distinct', column: 'user_id' }); // ['COUNT(DISTINCT user_id)', []]
+ * buildAggregate({ fn: 'string_agg', column: 'tag', separator: '|' }); // ['STRING_AGG(tag, ?)', ['|']]
+ * ```
+ */
+export function buildAggregate(spec: AggregateSpec): [string, unknown[]] {
+  if (!isAggregateFunction(spec.fn)) {
+    throw new QueryComposerError(`Invalid aggregate function '${spec.fn}'`);
+  }
+  const column = spec.column ?? (spec.fn === 'count' ? '*' : undefined);
+  if (!column) {
+    throw new QueryComposerError(`Aggregate '${spec.fn}' requires a column`);
+  }
+  if (column === '*' && spec.fn !== 'count') {
+    throw new QueryComposerError(`Aggregate '${spec.fn}' does not accept '*'`);
+  }
+
+  const fn = AGGREGATE_SQL[spec.fn];
+  switch (spec.fn) {
+    case 'count_distinct':
+      return [fn + '(DISTINCT ' + column + ')', []];
+    case 'string_agg':
+      return [fn + '(' + column + ', ?)', [spec.separator ?? ',']];
+    default:
+      return [fn + '(' + column + ')', []];
+  }
+}
@@ -0,0 +1,155 @@
+import { validateIdentifier } from './identifier-validation';
+import { CompoundSelectBuilder } from './sql-builder';
+import type { QueryComposer } from './query-composer';
+import type { PaginationOptions, SortOption } from './types';
+
+/**
+ * Set operators supported between queries
+ */
+export type SetOperator = 'UNION' | 'UNION ALL' | 'INTERSECT' | 'EXCEPT';
+
+/**
+ * Anything that can be an arm of a set operation
+ */
+export type SetOperand = QueryComposer | CompoundQuery;
+
+/**
+ * Combined query built from UNION / INTERSECT / EXCEPT between composers
+ *
+ * Arms are rendered when added (later changes to the source composer are not
+ * picked up), and their parameters are re-numbered in order. Chains evaluate
+ * left to right, even across INTERSECT. orderBy() / paginate() apply to the
+ * combined result and reference output column names.
+ *
+ * @example
+ * ```typescript
+ * const feed = new QueryComposer(PostSchema, 'posts').select(['id', 'created_at'])
+ *   .unionAll(new QueryComposer(VideoSchema, 'videos').select(['id', 'created_at']))
+ *   .orderBy('-created_at')
+ *   .paginate({ page: 1, limit: 20 });
+ *
+ * feed.toParam();
+ * // (SELECT id, created_at FROM posts) UNION ALL (SELECT id, created_at FROM videos)
+ * //   ORDER BY created_at DESC LIMIT $1 OFFSET $2
+ * ```
+ */
+export class CompoundQuery {
+  private operators: SetOperator[] = [];
+  private bodies: string[] = [];
+  private bodyValues: unknown[][] = [];
+  private sortOptions: SortOption[] = [];
+  private limitValue: number | null = null;
+  private offsetValue: number | null = null;
+
+  constructor(first: SetOperand) {
+    this.push('UNION', first);
+  }
+
+  /**
+   * Combine with UNION (duplicates removed)
+   */
+  union(query: SetOperand): this {
+    return this.push('UNION', query);
+  }
+
+  /**
+   * Combine with UNION ALL (duplicates kept)
+   */
+  unionAll(query: SetOperand): this {
+    return this.push('UNION ALL', query);
+  }
+
+  /**
+   * Combine with INTERSECT
+   */
+  intersect(query: SetOperand): this {
+    return this.push('INTERSECT', query);
+  }
+
+  /**
+   * Combine with EXCEPT
+   */
+  except(query: SetOperand): this {
+    return this.push('EXCEPT', query);
+  }
+
+  /**
+   * Add ORDER BY on the combined result ('-column' for DESC)
+   */
+  orderBy(...fields: string[]): this {
+    for (const field of fields) {
+      const isDesc = field.startsWith('-');
+      const column = isDesc ? field.slice(1) : field;
+      validateIdentifier(column);
+      this.sortOptions.push({ column, direction: isDesc ? 'DESC' : 'ASC' });
+    }
+    return this;
+  }
+
+  /**
+   * Limit the combined result
+   */
+  limit(n: number): this {
+    this.limitValue = n;
+    return this;
+  }
+
+  /**
+   * Offset the combined result
+   */
+  offset(n: number): this {
+    this.offsetValue = n;
+    return this;
+  }
+
+  /**
+   * Paginate the combined result (same defaults as QueryComposer.paginate())
+   */
+  paginate(options: PaginationOptions): this {
+    const maxLimit = options.maxLimit ?? 100;
+    const limit = Math.min(options.limit ?? 20, maxLimit);
+    const page = Math.max(options.page ?? 1, 1);
+    this.limitValue = limit;
+    this.offsetValue = (page - 1) * limit;
+    return this;
+  }
+
+  /**
+   * Build the compound SELECT
+   */
+  toSelect(): CompoundSelectBuilder {
+    const query = new CompoundSelectBuilder();
+    for (let i = 0; i < this.bodies.length; i++) {
+      query.add(this.operators[i], this.bodies[i], this.bodyValues[i]);
+    }
+    for (const sort of this.sortOptions) {
+      query.order(sort.column, sort.direction === 'ASC');
+    }
+    if (this.limitValue !== null) query.limit(this.limitValue);
+    if (this.offsetValue !== null) query.offset(this.offsetValue);
+    return query;
+  }
+
+  /**
+   * Get parameterized query
+   */
+  toParam(): { text: string; values: unknown[] } {
+    return this.toSelect().toParam();
+  }
+
+  /**
+   * Get SQL string (for debugging)
+   */
+  toSQL(): string {
+    return this.toSelect().toString();
+  }
+
+  private push(operator: SetOperator, query: SetOperand): this {
+    const { text, values } = query.toParam();
+    this.operators.push(operator);
+    // Convert $N placeholders back to ? for re-numbering
+    this.bodies.push(text.replace(/\$\d+/g, '?'));
+    this.bodyValues.push(values);
+    return this;
+  }
+}
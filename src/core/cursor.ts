@@ -0,0 +1,96 @@
+import { InvalidCursorError } from './errors';
+import type { SortOption } from './types';
+
+/**
+ * Encode sort-column values into an opaque cursor string (base64url JSON)
+ *
+ * @example
+ * ```typescript
+ * encodeCursor(['2024-05-01T10:00:00.000Z', 42]); // 'WyIyMDI0LTA1LTAxVDEwOjAwOjAwLjAwMFoiLDQyXQ'
+ * ```
+ */
+export function encodeCursor(values: unknown[]): string {
+  return Buffer.from(JSON.stringify(values), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor()
+ *
+ * @throws InvalidCursorError if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): unknown[] {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError('not a valid cursor string');
+  }
+  if (!Array.isArray(decoded) || decoded.length === 0) {
+    throw new InvalidCursorError('expected a non-empty value list');
+  }
+  return decoded;
+}
+
+/**
+ * Build the keyset predicate for a sort list and cursor values, with ? placeholders.
+ *
+ * Uniform directions use a row-value comparison; mixed directions expand to
+ * an OR of prefix-equality terms. `backward` flips every comparison (used
+ * when paging before a cursor).
+ *
+ * @example
+ * ```typescript
+ * buildKeysetCondition(
+ *   [{ column: 'created_at', direction: 'DESC' }, { column: 'id', direction: 'DESC' }],
+ *   ['2024-05-01', 42], false);
+ * // ['(created_at, id) < (?, ?)', ['2024-05-01', 42]]
+ *
+ * buildKeysetCondition(
+ *   [{ column: 'score', direction: 'DESC' }, { column: 'id', direction: 'ASC' }],
+ *   [10, 42], false);
+ * // ['(score < ? OR (score = ? AND id > ?))', [10, 10, 42]]
+ * ```
+ */
+export function buildKeysetCondition(
+  sorts: SortOption[],
+  values: unknown[],
+  backward: boolean
+): [string, unknown[]] {
+  if (values.length !== sorts.length) {
+    throw new InvalidCursorError(
+      `expected ${sorts.length} values for sort (${sorts.map((s) => s.column).join(', ')}), got ${values.length}`
+    );
+  }
+
+  const op = (sort: SortOption): string =>
+    (sort.direction === 'ASC') !== backward ? '>' : '<';
+
+  const uniform = sorts.every((s) => s.direction === sorts[0].direction);
+  if (sorts.length === 1 || uniform) {
+    if (sorts.length === 1) {
+      return [sorts[0].column + ' ' + op(sorts[0]) + ' ?', values.slice()];
+    }
+    let cols = sorts[0].column;
+    let marks = '?';
+    for (let i = 1; i < sorts.length; i++) {
+      cols += ', ' + sorts[i].column;
+      marks += ', ?';
+    }
+    return ['(' + cols + ') ' + op(sorts[0]) + ' (' + marks + ')', values.slice()];
+  }
+
+  // Mixed directions: (a > ?) OR (a = ? AND b < ?) OR ...
+  const terms: string[] = [];
+  const termValues: unknown[] = [];
+  for (let i = 0; i < sorts.length; i++) {
+    let term = '';
+    for (let j = 0; j < i; j++) {
+      term += sorts[j].column + ' = ? AND ';
+      termValues.push(values[j]);
+    }
+    term += sorts[i].column + ' ' + op(sorts[i]) + ' ?';
+    termValues.push(values[i]);
+    terms.push(i === 0 ? term : '(' + term + ')');
+  }
+  return ['(' + terms.join(' OR ') + ')', termValues];
+}
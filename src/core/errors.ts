@@ -1,4 +1,5 @@
 import { VALID_OPERATORS } from './operators';
+import type { ResultValidationIssue } from './types';
 
 /**
  * Base error class for pg-query-composer
@@ -59,3 +60,61 @@ export class TypeMismatchError extends QueryComposerError {
     this.name = 'TypeMismatchError';
   }
 }
+
+/**
+ * Error thrown when a DELETE would run without any filter conditions
+ */
+export class UnfilteredDeleteError extends QueryComposerError {
+  constructor(table: string) {
+    super(`Refusing to DELETE from '${table}' without conditions. Pass { allowUnfiltered: true } to delete all rows`);
+    this.name = 'UnfilteredDeleteError';
+  }
+}
+
+/**
+ * Error thrown when a pagination cursor cannot be decoded or doesn't match the sort
+ */
+export class InvalidCursorError extends QueryComposerError {
+  constructor(reason: string) {
+    super(`Invalid cursor: ${reason}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Error thrown when executed rows don't match the composer's schema.
+ * Collects the issues of every failing row instead of stopping at the first.
+ */
+export class ResultValidationError extends QueryComposerError {
+  readonly issues: ResultValidationIssue[];
+
+  constructor(issues: ResultValidationIssue[]) {
+    super(`Result validation failed for ${summarizeIssues(issues)}`);
+    this.name = 'ResultValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown when rows passed to toInsert()/toUpsert() don't match the
+ * composer's schema. Collects the issues of every failing row.
+ */
+export class InsertValidationError extends QueryComposerError {
+  readonly issues: ResultValidationIssue[];
+
+  constructor(issues: ResultValidationIssue[]) {
+    super(`Insert validation failed for ${summarizeIssues(issues)}`);
+    this.name = 'InsertValidationError';
+    this.issues = issues;
+  }
+}
+
+function summarizeIssues(issues: ResultValidationIssue[]): string {
+  const rows = new Set(issues.map((issue) => issue.row)).size;
+  const summary = issues
+    .slice(0, 3)
+    .map((issue) => `row ${issue.row}${issue.path.length > 0 ? ` '${issue.path.join('.')}'` : ''}: ${issue.message}`)
+    .join('; ');
+  const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+  return `${rows} row(s): ${summary}${more}`;
+}
@@ -1,19 +1,50 @@
 import * as z from 'zod';
-import { extractZodColumns } from '../utils/zod-utils';
+import { buildResultSchema, extractZodColumns } from '../utils/zod-utils';
 import { OPERATORS, VALID_OPERATORS_SET } from './operators';
-import { InvalidColumnError, InvalidOperatorError } from './errors';
+import {
+  InsertValidationError,
+  InvalidColumnError,
+  InvalidCursorError,
+  InvalidOperatorError,
+  QueryComposerError,
+  UnfilteredDeleteError,
+  ResultValidationError,
+} from './errors';
 import { validateIdentifier } from './identifier-validation';
-import { SelectBuilder } from './sql-builder';
+import { buildWindowFunction } from './window';
+import { buildAggregate, parseAggregateExpression } from './aggregate';
+import { CompoundQuery } from './compound-query';
+import { buildKeysetCondition, decodeCursor, encodeCursor } from './cursor';
+import type { SetOperand } from './compound-query';
+import { SelectBuilder, InsertBuilder, UpdateBuilder, DeleteBuilder } from './sql-builder';
+import { resolveExecutor } from '../executor/adapters';
+import type { DatabaseClient, PaginatedResult } from '../executor/types';
 import type {
   QueryOperator,
   QueryBuilderOptions,
   PaginationOptions,
   PaginationMeta,
+  SelectOptions,
+  CursorPaginationOptions,
+  CursorPaginationMeta,
+  CursorState,
   SortOption,
   Condition,
   OrGroup,
   JoinConfig,
+  LateralSubquery,
   HavingCondition,
+  CteConfig,
+  CteOptions,
+  SelectExpression,
+  AggregateSpec,
+  WindowFunctionSpec,
+  InsertOptions,
+  UpsertOptions,
+  UpdateOptions,
+  DeleteOptions,
+  ResultValidationOptions,
+  ResultValidationIssue,
 } from './types';
 
 // Negation map: operator → its negated form (avoids NOT wrapper in SQL)
@@ -32,8 +63,19 @@ const NEGATED_OPERATORS: Partial<Record<QueryOperator, QueryOperator>> = {
   notbetween: 'between',
 };
 
-// Default columns always included in whitelist
-const DEFAULT_COLUMNS = ['id', 'created_at', 'updated_at', 'deleted_at'] as const;
+// Alias of the window total added by toSelect({ withTotal: true })
+const TOTAL_ALIAS = '__total';
+
+function stripTotal(row: Record<string, unknown>): Record<string, unknown> {
+  const copy = { ...row };
+  delete copy[TOTAL_ALIAS];
+  return copy;
+}
+
+/**
+ * Columns always included in the whitelist, whether or not the schema lists them
+ */
+export const DEFAULT_COLUMNS = ['id', 'created_at', 'updated_at', 'deleted_at'] as const;
 
 // Cache whitelist arrays and sets per schema (when no extraColumns)
 const whitelistCache = new WeakMap<object, { list: readonly string[]; set: ReadonlySet<string> }>();
@@ -56,6 +98,11 @@ function buildWhitelist(schema: z.ZodTypeAny, extraColumns: string[]): { list: r
   return result;
 }
 
+// Any builder that accepts WHERE clauses (SELECT / UPDATE / DELETE)
+interface ConditionTarget {
+  whereArr(condition: string, values: unknown[]): unknown;
+}
+
 // Pre-built default options to avoid object allocation on common path
 const DEFAULT_OPTIONS: Required<QueryBuilderOptions> = {
   strict: true,
@@ -81,6 +128,7 @@ export class QueryComposer {
   private options: Required<QueryBuilderOptions>;
   private whitelist: readonly string[];
   private whitelistSet: ReadonlySet<string>;
+  private joinedColumns: string[] = [];
 
   private conditions: Condition[] = [];
   private orGroups: OrGroup[] = [];
@@ -88,13 +136,18 @@ export class QueryComposer {
 
   private sortOptions: SortOption[] = [];
   private paginationOptions: PaginationOptions | null = null;
+  private cursorOptions: CursorState | null = null;
   private selectedFields: string[] = [];
   private excludedFields: Set<string> | null = null;
+  private selectExpressions: SelectExpression[] = [];
 
+  private ctes: CteConfig[] = [];
   private joins: JoinConfig[] = [];
   private groupByFields: string[] = [];
   private havingConditions: HavingCondition[] = [];
 
+  private resultValidation: ResultValidationOptions | null = null;
+
   /**
    * Create a new QueryComposer instance
    */
@@ -138,6 +191,22 @@ export class QueryComposer {
     return isValid;
   }
 
+  /**
+   * Accept qualified columns of a joined table (e.g. 'countries.name') in
+   * where/orderBy/select. They are not added to the default select list.
+   */
+  protected addJoinedColumns(columns: string[]): void {
+    this.joinedColumns.push(...columns);
+    this.whitelistSet = new Set([...this.whitelistSet, ...columns]);
+  }
+
+  /**
+   * Whether where()/or()/not() added any condition
+   */
+  protected hasFilter(): boolean {
+    return this.conditions.length > 0 || this.orGroups.length > 0 || this.notConditions.length > 0;
+  }
+
   private validateOperator(operator: string): operator is QueryOperator {
     const isValid = VALID_OPERATORS_SET.has(operator);
     if (!isValid && this.options.strict) {
@@ -146,6 +215,30 @@ export class QueryComposer {
     return isValid;
   }
 
+  /**
+   * Validate a column used inside a generated expression: whitelist in strict
+   * mode, safe identifier otherwise.
+   */
+  private validateExpressionColumn(column: string): void {
+    if (!this.validateColumn(column)) {
+      validateIdentifier(column);
+    }
+  }
+
+  /**
+   * Parse orderBy() syntax ('-column' for DESC) into a sort option.
+   * Returns null for invalid columns in non-strict mode.
+   */
+  private parseSort(field: string): SortOption | null {
+    const isDesc = field.startsWith('-');
+    const column = isDesc ? field.slice(1) : field;
+
+    if (this.validateColumn(column) || !this.options.strict) {
+      return { column, direction: isDesc ? 'DESC' : 'ASC' };
+    }
+    return null;
+  }
+
   private parseFieldOperator(key: string): {
     column: string;
     operator: QueryOperator;
@@ -321,6 +414,79 @@ export class QueryComposer {
     return this;
   }
 
+  // ===========================================================================
+  // CTE METHODS
+  // ===========================================================================
+
+  /**
+   * Attach a named CTE (WITH name AS (...)) to the query.
+   * The CTE's parameters are re-numbered ahead of the main query's.
+   * Select from it with a composer on the CTE name, or join against it.
+   *
+   * @example
+   * ```typescript
+   * const recent = new QueryComposer(OrderSchema, 'orders')
+   *   .select(['user_id'])
+   *   .where({ created_at__gte: since });
+   *
+   * new QueryComposer(UserSchema, 'users')
+   *   .with('recent_orders', recent, { materialized: true })
+   *   .join('recent_orders', 'recent_orders.user_id = users.id');
+   * // WITH recent_orders AS MATERIALIZED (SELECT user_id FROM orders WHERE created_at >= $1)
+   * //   SELECT * FROM users INNER JOIN recent_orders ON (recent_orders.user_id = users.id)
+   * ```
+   */
+  with(name: string, query: QueryComposer | CompoundQuery, options: CteOptions = {}): this {
+    validateIdentifier(name);
+    const { text, values } = query.toParam();
+    // Convert $N placeholders back to ? for re-numbering by outer query
+    this.ctes.push({
+      name,
+      text: text.replace(/\$\d+/g, '?'),
+      values,
+      materialized: options.materialized,
+    });
+    return this;
+  }
+
+  // ===========================================================================
+  // SET OPERATION METHODS
+  // ===========================================================================
+
+  /**
+   * Combine with another query using UNION (duplicates removed).
+   * Returns a CompoundQuery whose orderBy()/paginate() apply to the combined result.
+   *
+   * @example
+   * ```typescript
+   * posts.union(videos).orderBy('-created_at').paginate({ limit: 20 }).toParam();
+   * ```
+   */
+  union(query: SetOperand): CompoundQuery {
+    return new CompoundQuery(this).union(query);
+  }
+
+  /**
+   * Combine with another query using UNION ALL (duplicates kept)
+   */
+  unionAll(query: SetOperand): CompoundQuery {
+    return new CompoundQuery(this).unionAll(query);
+  }
+
+  /**
+   * Combine with another query using INTERSECT
+   */
+  intersect(query: SetOperand): CompoundQuery {
+    return new CompoundQuery(this).intersect(query);
+  }
+
+  /**
+   * Combine with another query using EXCEPT
+   */
+  except(query: SetOperand): CompoundQuery {
+    return new CompoundQuery(this).except(query);
+  }
+
   // ===========================================================================
   // FIELD SELECTION METHODS
   // ===========================================================================
@@ -345,6 +511,71 @@ export class QueryComposer {
     return this;
   }
 
+  /**
+   * Add a window function to the select list
+   *
+   * Columns in `column`, `partitionBy` and `orderBy` are validated against the
+   * whitelist; `orderBy` uses the same '-column' syntax as orderBy(). When no
+   * fields were selected explicitly the query keeps `*` alongside the window.
+   *
+   * @example
+   * ```typescript
+   * qc.window('rank_in_league', {
+   *   fn: 'row_number',
+   *   partitionBy: ['league_id'],
+   *   orderBy: ['-points'],
+   * });
+   * // SELECT *, ROW_NUMBER() OVER (PARTITION BY league_id ORDER BY points DESC) AS rank_in_league FROM ...
+   *
+   * qc.window('running_total', {
+   *   fn: 'sum',
+   *   column: 'amount',
+   *   orderBy: ['created_at'],
+   *   frame: { mode: 'rows', start: 'unboundedPreceding', end: 'currentRow' },
+   * });
+   * ```
+   */
+  window(alias: string, spec: WindowFunctionSpec): this {
+    validateIdentifier(alias);
+    if (spec.column && spec.column !== '*') {
+      this.validateExpressionColumn(spec.column);
+    }
+    if (spec.partitionBy) {
+      for (const column of spec.partitionBy) this.validateExpressionColumn(column);
+    }
+    const orderBy: SortOption[] = [];
+    if (spec.orderBy) {
+      for (const field of spec.orderBy) {
+        const sort = this.parseSort(field);
+        if (sort) {
+          validateIdentifier(sort.column);
+          orderBy.push(sort);
+        }
+      }
+    }
+
+    const [expression, values] = buildWindowFunction(spec, orderBy);
+    this.selectExpressions.push({ expression, alias, values });
+    return this;
+  }
+
+  /**
+   * Add a raw expression to the select list
+   *
+   * WARNING: the expression is passed through unchanged — only use
+   * developer-authored SQL. Use ? placeholders for values.
+   *
+   * @example
+   * ```typescript
+   * qc.selectRaw('(SELECT COUNT(*) FROM posts WHERE posts.user_id = users.id AND status = ?)', ['published'], 'post_count');
+   * ```
+   */
+  selectRaw(expression: string, values: unknown[], alias: string): this {
+    validateIdentifier(alias);
+    this.selectExpressions.push({ expression, alias, values });
+    return this;
+  }
+
   // ===========================================================================
   // SORTING METHODS
   // ===========================================================================
@@ -354,15 +585,8 @@ export class QueryComposer {
    */
   orderBy(...fields: string[]): this {
     for (const field of fields) {
-      const isDesc = field.startsWith('-');
-      const column = isDesc ? field.slice(1) : field;
-
-      if (this.validateColumn(column) || !this.options.strict) {
-        this.sortOptions.push({
-          column,
-          direction: isDesc ? 'DESC' : 'ASC',
-        });
-      }
+      const sort = this.parseSort(field);
+      if (sort) this.sortOptions.push(sort);
     }
     return this;
   }
@@ -388,9 +612,102 @@ export class QueryComposer {
     const page = Math.max(options.page ?? 1, 1);
 
     this.paginationOptions = { page, limit, maxLimit };
+    this.cursorOptions = null;
     return this;
   }
 
+  /**
+   * Add keyset (cursor) pagination
+   *
+   * Derives a row-value predicate from the orderBy() sort list instead of
+   * using OFFSET. The `tieBreaker` column (default 'id') is appended to the
+   * sort when missing so the order is total. One extra row is fetched to
+   * detect further pages — pass the raw rows to getCursorPage().
+   *
+   * @example
+   * ```typescript
+   * const qc = new QueryComposer(PostSchema, 'posts')
+   *   .orderBy('-created_at')
+   *   .cursorPaginate({ limit: 20, after: req.query.cursor });
+   * // ... WHERE (created_at, id) < ($1, $2) ORDER BY created_at DESC, id DESC LIMIT $3
+   *
+   * const { rows, meta } = qc.getCursorPage((await db.query(qc.toParam())).rows);
+   * ```
+   */
+  cursorPaginate(options: CursorPaginationOptions): this {
+    if (options.after !== undefined && options.before !== undefined) {
+      throw new QueryComposerError('cursorPaginate() accepts either after or before, not both');
+    }
+    const maxLimit = options.maxLimit ?? 100;
+    const limit = Math.max(Math.min(options.limit ?? 20, maxLimit), 1);
+    const tieBreaker = options.tieBreaker ?? 'id';
+    this.validateExpressionColumn(tieBreaker);
+
+    this.cursorOptions = {
+      limit,
+      after: options.after !== undefined ? decodeCursor(options.after) : undefined,
+      before: options.before !== undefined ? decodeCursor(options.before) : undefined,
+      tieBreaker,
+    };
+    this.paginationOptions = null;
+    return this;
+  }
+
+  /**
+   * Trim the look-ahead row, restore order for backward pages and build
+   * cursor metadata from rows fetched with cursorPaginate().
+   *
+   * @throws InvalidCursorError if a row used for a cursor lacks a sort column
+   */
+  getCursorPage<T extends Record<string, unknown>>(
+    rows: T[]
+  ): { rows: T[]; meta: CursorPaginationMeta } {
+    const cursor = this.cursorOptions;
+    if (!cursor) {
+      throw new QueryComposerError('getCursorPage() requires cursorPaginate()');
+    }
+
+    const backward = cursor.before !== undefined;
+    const hasMore = rows.length > cursor.limit;
+    let page = hasMore ? rows.slice(0, cursor.limit) : rows.slice();
+    if (backward) page = page.reverse();
+
+    const hasNext = backward ? true : hasMore;
+    const hasPrev = backward ? hasMore : cursor.after !== undefined;
+    const sorts = this.getCursorSorts(cursor);
+    const toCursor = (row: T): string => encodeCursor(sorts.map((sort) => {
+      // Qualified sort columns (table.col) come back under the bare column name
+      const dot = sort.column.lastIndexOf('.');
+      const column = dot === -1 ? sort.column : sort.column.slice(dot + 1);
+      if (row[column] === undefined) {
+        throw new InvalidCursorError(`row is missing sort column '${column}'`);
+      }
+      return row[column];
+    }));
+
+    return {
+      rows: page,
+      meta: {
+        limit: cursor.limit,
+        hasNext,
+        hasPrev,
+        nextCursor: hasNext && page.length > 0 ? toCursor(page[page.length - 1]) : null,
+        prevCursor: hasPrev && page.length > 0 ? toCursor(page[0]) : null,
+      },
+    };
+  }
+
+  /**
+   * Sort list used for keyset pagination (orderBy() + tie-breaker)
+   */
+  private getCursorSorts(cursor: CursorState): SortOption[] {
+    if (this.sortOptions.some((s) => s.column === cursor.tieBreaker)) {
+      return this.sortOptions;
+    }
+    const last = this.sortOptions[this.sortOptions.length - 1];
+    return [...this.sortOptions, { column: cursor.tieBreaker, direction: last ? last.direction : 'ASC' }];
+  }
+
   /**
    * Get pagination metadata
    */
@@ -411,6 +728,34 @@ export class QueryComposer {
     return meta;
   }
 
+  /**
+   * Get pagination metadata from rows fetched with toParam({ withTotal: true }).
+   *
+   * An empty page past the first can't tell the total (no row carries it), so
+   * total is left undefined there — fall back to toCountParam() if needed.
+   *
+   * @example
+   * ```typescript
+   * const { rows } = await db.query(qc.paginate({ page: 2 }).toParam({ withTotal: true }));
+   * const meta = qc.getPaginationMetaFromRows(rows);
+   * ```
+   */
+  getPaginationMetaFromRows(rows: Array<Record<string, unknown>>): PaginationMeta {
+    if (rows.length === 0) {
+      const page = this.paginationOptions?.page ?? 1;
+      return this.getPaginationMeta(page === 1 ? 0 : undefined);
+    }
+
+    // pg returns bigint COUNT as a string
+    const total = Number(rows[0][TOTAL_ALIAS]);
+    if (!Number.isFinite(total)) {
+      throw new QueryComposerError(
+        `Rows have no '${TOTAL_ALIAS}' column. Build the query with toParam({ withTotal: true })`
+      );
+    }
+    return this.getPaginationMeta(total);
+  }
+
   // ===========================================================================
   // JOIN METHODS
   // ===========================================================================
@@ -448,6 +793,37 @@ export class QueryComposer {
     return this;
   }
 
+  /**
+   * Add a LATERAL subquery join (LEFT by default, ON TRUE unless given)
+   *
+   * @example
+   * ```typescript
+   * const recent = subquery(PostSchema, 'posts')
+   *   .whereRaw('posts.league_id = leagues.id')
+   *   .orderBy('-created_at')
+   *   .paginate({ limit: 3 });
+   * qc.joinLateral(lateral(recent, 'recent'));
+   * // LEFT JOIN LATERAL (SELECT * FROM posts WHERE ... LIMIT $1 OFFSET $2) recent ON (TRUE)
+   * ```
+   */
+  joinLateral(
+    subquery: LateralSubquery,
+    options: { type?: 'inner' | 'left'; on?: string } = {}
+  ): this {
+    const on = options.on ?? 'TRUE';
+    validateIdentifier(on);
+    this.joins.push({
+      type: options.type ?? 'left',
+      // Convert $N placeholders back to ? for re-numbering by outer query
+      table: subquery.sql.replace(/\$\d+/g, '?'),
+      alias: subquery.alias,
+      on,
+      lateral: true,
+      values: subquery.values,
+    });
+    return this;
+  }
+
   // ===========================================================================
   // AGGREGATION METHODS
   // ===========================================================================
@@ -464,14 +840,89 @@ export class QueryComposer {
     return this;
   }
 
+  /**
+   * Add an aggregate to the select list
+   *
+   * Accepts a structured spec or the `fn(column)` shorthand. Columns are
+   * validated against the whitelist. When no fields were selected explicitly,
+   * the GROUP BY columns are selected alongside the aggregates instead of `*`.
+   *
+   * @example
+   * ```typescript
+   * qc.groupBy('league_id')
+   *   .aggregate('total', 'sum(amount)')
+   *   .aggregate('buyers', { fn: 'count_distinct', column: 'user_id' });
+   * // SELECT league_id, SUM(amount) AS total, COUNT(DISTINCT user_id) AS buyers FROM orders GROUP BY league_id
+   * ```
+   */
+  aggregate(alias: string, spec: AggregateSpec | string): this {
+    validateIdentifier(alias);
+    const [expression, values] = this.resolveAggregate(spec);
+    this.selectExpressions.push({ expression, alias, values, aggregate: true });
+    return this;
+  }
+
   /**
    * Add HAVING clause
+   *
+   * Accepts a raw condition string, or an object of `fn(column)__operator`
+   * filters that are validated and parameterized like where().
+   *
+   * @example
+   * ```typescript
+   * qc.groupBy('user_id').having({ 'sum(amount)__gte': 100, 'count(*)__gt': 2 });
+   * // ... GROUP BY user_id HAVING (SUM(amount) >= $1) AND (COUNT(*) > $2)
+   * ```
    */
-  having(condition: string, values: unknown[] = []): this {
-    this.havingConditions.push({ condition, values });
+  having(condition: string | Record<string, unknown>, values: unknown[] = []): this {
+    if (typeof condition === 'string') {
+      this.havingConditions.push({ condition, values });
+      return this;
+    }
+
+    const sep = this.options.separator;
+    for (const key in condition) {
+      const value = condition[key];
+      if (value === undefined) continue;
+
+      // Search for the separator after the closing paren so aggregate
+      // names like count_distinct are never split
+      const closeIdx = key.lastIndexOf(')');
+      const sepIdx = key.indexOf(sep, closeIdx === -1 ? 0 : closeIdx);
+      const target = sepIdx === -1 ? key : key.slice(0, sepIdx);
+      const operator = sepIdx === -1 ? 'exact' : key.slice(sepIdx + sep.length);
+
+      if (!VALID_OPERATORS_SET.has(operator)) {
+        throw new InvalidOperatorError(operator);
+      }
+
+      let expression: string;
+      let exprValues: unknown[];
+      if (closeIdx === -1) {
+        this.validateExpressionColumn(target);
+        expression = target;
+        exprValues = [];
+      } else {
+        [expression, exprValues] = this.resolveAggregate(target);
+      }
+
+      const [condStr, opValues] = OPERATORS[operator as QueryOperator](expression, value);
+      this.havingConditions.push({ condition: condStr, values: [...exprValues, ...opValues] });
+    }
     return this;
   }
 
+  private resolveAggregate(spec: AggregateSpec | string): [string, unknown[]] {
+    const parsed = typeof spec === 'string' ? parseAggregateExpression(spec) : spec;
+    if (!parsed) {
+      throw new QueryComposerError(`Invalid aggregate expression '${spec}'. Expected fn(column)`);
+    }
+    if (parsed.column && parsed.column !== '*') {
+      this.validateExpressionColumn(parsed.column);
+    }
+    return buildAggregate(parsed);
+  }
+
   // ===========================================================================
   // CONDITIONAL COMPOSITION METHODS
   // ===========================================================================
@@ -524,18 +975,17 @@ export class QueryComposer {
   // QUERY BUILDING METHODS
   // ===========================================================================
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private applyConditions(query: SelectBuilder): SelectBuilder {
+  private applyConditions<Q extends ConditionTarget>(query: Q): Q {
     // Apply AND conditions — use whereArr to avoid spread overhead
     for (const cond of this.conditions) {
       if (cond.raw && cond.rawCondition) {
-        query = query.whereArr(cond.rawCondition, cond.value as unknown[]);
+        query.whereArr(cond.rawCondition, cond.value as unknown[]);
         continue;
       }
 
       const handler = OPERATORS[cond.operator];
       const [condStr, values] = handler(cond.column, cond.value);
-      query = query.whereArr(condStr, values);
+      query.whereArr(condStr, values);
     }
 
     // Apply OR groups — build expression inline to avoid join()
@@ -553,7 +1003,7 @@ export class QueryComposer {
       }
 
       if (orExpr) {
-        query = query.whereArr('(' + orExpr + ')', orValues);
+        query.whereArr('(' + orExpr + ')', orValues);
       }
     }
 
@@ -563,11 +1013,11 @@ export class QueryComposer {
       if (negated) {
         const handler = OPERATORS[negated];
         const [condStr, values] = handler(cond.column, cond.value);
-        query = query.whereArr(condStr, values);
+        query.whereArr(condStr, values);
       } else {
         const handler = OPERATORS[cond.operator];
         const [condStr, values] = handler(cond.column, cond.value);
-        query = query.whereArr('NOT (' + condStr + ')', values);
+        query.whereArr('NOT (' + condStr + ')', values);
       }
     }
 
@@ -577,6 +1027,10 @@ export class QueryComposer {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private applyJoins(query: SelectBuilder): SelectBuilder {
     for (const join of this.joins) {
+      if (join.lateral) {
+        query = query.lateral_join(join.type === 'inner' ? 'INNER' : 'LEFT', join.table, join.alias!, join.on, join.values ?? []);
+        continue;
+      }
       const tableRef = join.alias ? `${join.table} ${join.alias}` : join.table;
 
       switch (join.type) {
@@ -594,6 +1048,12 @@ export class QueryComposer {
     return query;
   }
 
+  private applyCtes(query: SelectBuilder | UpdateBuilder | DeleteBuilder): void {
+    for (const cte of this.ctes) {
+      query.with(cte.name, cte.text, cte.values, cte.materialized);
+    }
+  }
+
   private getSelectFields(): string[] {
     if (this.selectedFields.length > 0) {
       return this.selectedFields;
@@ -612,18 +1072,38 @@ export class QueryComposer {
   /**
    * Build SELECT query
    */
-  toSelect(): SelectBuilder {
+  toSelect(options: SelectOptions = {}): SelectBuilder {
     let query = new SelectBuilder().from(this.table);
+    this.applyCtes(query);
 
     // Apply fields — use SELECT * when no explicit select/exclude (shorter SQL, faster PG parse)
+    const hasExpressions = this.selectExpressions.length > 0 || options.withTotal === true;
     if (this.selectedFields.length > 0) {
-      query = query.fields(this.selectedFields);
+      // Copy when expressions will be appended so selectedFields isn't mutated
+      query = query.fields(hasExpressions ? this.selectedFields.slice() : this.selectedFields);
     } else if (this.excludedFields && this.excludedFields.size > 0) {
       const fields = this.whitelist.filter((f) => !this.excludedFields!.has(f)) as string[];
       query = query.fields(fields);
+    } else if (hasExpressions) {
+      // Aggregates can't be combined with *, select the grouping columns instead
+      if (this.selectExpressions.some((e) => e.aggregate)) {
+        query = query.fields(this.groupByFields.slice());
+      } else {
+        query = query.field('*');
+      }
     }
     // else: no fields() call → SelectBuilder uses SELECT *
 
+    // Apply computed expressions (window functions, ...)
+    for (const expr of this.selectExpressions) {
+      query = query.fieldArr(expr.expression, expr.values, expr.alias);
+    }
+
+    // Window total — evaluated after WHERE/GROUP BY, before LIMIT/OFFSET
+    if (options.withTotal) {
+      query = query.field('COUNT(*) OVER()', TOTAL_ALIAS);
+    }
+
     // Apply joins
     query = this.applyJoins(query);
 
@@ -640,6 +1120,22 @@ export class QueryComposer {
       query = query.having(having.condition, having.values);
     }
 
+    // Keyset pagination — predicate + (possibly flipped) sort + look-ahead row
+    const cursor = this.cursorOptions;
+    if (cursor) {
+      const sorts = this.getCursorSorts(cursor);
+      const backward = cursor.before !== undefined;
+      const cursorValues = cursor.after ?? cursor.before;
+      if (cursorValues) {
+        const [condStr, values] = buildKeysetCondition(sorts, cursorValues, backward);
+        query = query.whereArr(condStr, values);
+      }
+      for (const sort of sorts) {
+        query = query.order(sort.column, (sort.direction === 'ASC') !== backward);
+      }
+      return query.limit(cursor.limit + 1);
+    }
+
     // Apply sorting
     for (const sort of this.sortOptions) {
       query = query.order(sort.column, sort.direction === 'ASC');
@@ -660,6 +1156,7 @@ export class QueryComposer {
    */
   toCount(): SelectBuilder {
     let query = new SelectBuilder().from(this.table).field('COUNT(*)', 'total');
+    this.applyCtes(query);
 
     query = this.applyJoins(query);
     query = this.applyConditions(query);
@@ -675,11 +1172,286 @@ export class QueryComposer {
     return query;
   }
 
+  // ===========================================================================
+  // WRITE METHODS
+  // ===========================================================================
+
+  /**
+   * Build INSERT query for one or more rows.
+   *
+   * The column list is the union of keys across all rows (first-seen order);
+   * rows missing a column insert DEFAULT for it. Columns are validated against
+   * the schema whitelist — unknown columns throw in strict mode and are
+   * dropped otherwise, mirroring where(). Values are checked against their
+   * schema fields; failing rows are collected into one InsertValidationError.
+   *
+   * @example
+   * ```typescript
+   * qc.toInsert([{ name: 'A', status: 'active' }, { name: 'B' }], { returning: ['id'] })
+   *   .toParam();
+   * // INSERT INTO users (name, status) VALUES ($1, $2), ($3, DEFAULT) RETURNING id
+   * ```
+   */
+  toInsert(
+    rows: Record<string, unknown> | Array<Record<string, unknown>>,
+    options: InsertOptions = {}
+  ): InsertBuilder {
+    const { query } = this.buildInsert(rows);
+    this.applyReturning(query, options.returning);
+    return query;
+  }
+
+  /**
+   * Build INSERT ... ON CONFLICT query (upsert).
+   *
+   * By default conflicting rows are updated with `col = EXCLUDED.col` for
+   * every inserted column outside the conflict target; pass `update` to
+   * narrow the list or `doNothing` to skip conflicting rows. `where` takes
+   * field__operator filters evaluated against the existing row. Conflict
+   * target and update columns are validated against the schema whitelist.
+   *
+   * @example
+   * ```typescript
+   * qc.toUpsert(rows, {
+   *   conflictTarget: ['external_id'],
+   *   update: ['name', 'synced_at'],
+   *   where: { locked: false },
+   * }).toParam();
+   * // INSERT INTO teams (external_id, name, synced_at) VALUES ($1, $2, $3)
+   * //   ON CONFLICT (external_id) DO UPDATE SET name = EXCLUDED.name, synced_at = EXCLUDED.synced_at
+   * //   WHERE teams.locked = $4
+   * ```
+   */
+  toUpsert(
+    rows: Record<string, unknown> | Array<Record<string, unknown>>,
+    options: UpsertOptions
+  ): InsertBuilder {
+    const { query, columns } = this.buildInsert(rows);
+
+    const target = options.conflictTarget ?? [];
+    for (const column of target) this.validateWriteColumn(column);
+    query.onConflict(target);
+
+    if (options.doNothing) {
+      query.doNothing();
+    } else {
+      if (target.length === 0) {
+        throw new QueryComposerError('toUpsert() requires conflictTarget for DO UPDATE');
+      }
+      const targetSet = new Set(target);
+      const updateColumns = options.update ?? columns.filter((c) => !targetSet.has(c));
+      if (updateColumns.length === 0) {
+        throw new QueryComposerError('toUpsert() has no columns to update; use doNothing instead');
+      }
+      for (const column of updateColumns) {
+        this.validateWriteColumn(column);
+        query.doUpdate(column + ' = EXCLUDED.' + column);
+      }
+      if (options.where) {
+        this.applyConflictWhere(query, options.where);
+      }
+    }
+
+    this.applyReturning(query, options.returning);
+    return query;
+  }
+
+  private buildInsert(
+    rows: Record<string, unknown> | Array<Record<string, unknown>>
+  ): { query: InsertBuilder; columns: string[] } {
+    const rowList = Array.isArray(rows) ? rows : [rows];
+    if (rowList.length === 0) {
+      throw new QueryComposerError('toInsert() requires at least one row');
+    }
+
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    for (const row of rowList) {
+      for (const key in row) {
+        if (seen.has(key)) continue;
+        seen.add(key);
+        if (!this.whitelistSet.has(key)) {
+          if (this.options.strict) throw new InvalidColumnError(key, this.whitelist);
+          continue;
+        }
+        columns.push(key);
+      }
+    }
+    if (columns.length === 0) {
+      throw new QueryComposerError('toInsert() found no valid columns to insert');
+    }
+    this.validateInsertRows(rowList, columns);
+
+    const query = new InsertBuilder().into(this.table).columns(columns);
+    for (const row of rowList) {
+      const values: unknown[] = new Array(columns.length);
+      for (let i = 0; i < columns.length; i++) {
+        values[i] = row[columns[i]];
+      }
+      query.values(values);
+    }
+    return { query, columns };
+  }
+
+  /**
+   * Check inserted values against the schema. Every column is optional (rows
+   * may leave it to DEFAULT); whitelisted columns outside the schema accept
+   * any value. Non-object schemas are not checked.
+   */
+  private validateInsertRows(rows: Array<Record<string, unknown>>, columns: string[]): void {
+    const rowSchema = buildResultSchema(this.schema, { pick: columns });
+    if (!(rowSchema instanceof z.ZodObject)) return;
+    const schema = rowSchema.partial();
+
+    const issues: ResultValidationIssue[] = [];
+    rows.forEach((row, index) => {
+      const result = schema.safeParse(row);
+      if (result.success) return;
+      for (const issue of result.error.issues) {
+        issues.push({ row: index, path: issue.path, message: issue.message });
+      }
+    });
+
+    if (issues.length > 0) {
+      throw new InsertValidationError(issues);
+    }
+  }
+
+  /**
+   * Validate a column referenced by a write clause: whitelist in strict mode,
+   * safe identifier always (non-strict cannot silently drop conflict columns).
+   */
+  private validateWriteColumn(column: string): void {
+    this.validateColumn(column);
+    validateIdentifier(column);
+  }
+
+  /**
+   * Render field__operator filters into the ON CONFLICT DO UPDATE WHERE clause.
+   * Columns are qualified with the table name to refer to the existing row.
+   */
+  private applyConflictWhere(query: InsertBuilder, filters: Record<string, unknown>): void {
+    for (const key in filters) {
+      const value = filters[key];
+      if (value === undefined) continue;
+
+      const { column, operator } = this.parseFieldOperator(key);
+      validateIdentifier(column);
+      const [condStr, values] = OPERATORS[operator](this.table + '.' + column, value);
+      query.conflictWhereArr(condStr, values);
+    }
+  }
+
+  /**
+   * Build UPDATE query driven by the composed where()/or()/not() conditions.
+   *
+   * SET columns are validated against the schema whitelist (unknown columns
+   * throw in strict mode and are dropped otherwise); undefined values are
+   * skipped. Inner joins added via join() render as `UPDATE ... FROM` with
+   * their ON condition moved into WHERE.
+   *
+   * @example
+   * ```typescript
+   * qc.where({ status: 'pending', created_at__lt: cutoff })
+   *   .toUpdate({ status: 'expired' }, { returning: ['id'] })
+   *   .toParam();
+   * // UPDATE users SET status = $1 WHERE status = $2 AND created_at < $3 RETURNING id
+   * ```
+   */
+  toUpdate(values: Record<string, unknown>, options: UpdateOptions = {}): UpdateBuilder {
+    const query = new UpdateBuilder().table(this.table);
+    this.applyCtes(query);
+
+    let setCount = 0;
+    for (const key in values) {
+      const value = values[key];
+      if (value === undefined) continue;
+      if (!this.whitelistSet.has(key)) {
+        if (this.options.strict) throw new InvalidColumnError(key, this.whitelist);
+        continue;
+      }
+      query.set(key, value);
+      setCount++;
+    }
+    if (setCount === 0) {
+      throw new QueryComposerError('toUpdate() found no valid columns to set');
+    }
+
+    for (const join of this.joins) {
+      query.from(this.getMutationJoinRef(join, 'UPDATE'));
+      query.whereArr(join.on, []);
+    }
+
+    this.applyConditions(query);
+    this.applyReturning(query, options.returning);
+    return query;
+  }
+
+  /**
+   * Build DELETE query driven by the composed where()/or()/not() conditions.
+   *
+   * Throws UnfilteredDeleteError when no conditions are present, unless
+   * `allowUnfiltered: true` is passed. Inner joins added via join() render
+   * as `DELETE ... USING` with their ON condition moved into WHERE.
+   *
+   * @example
+   * ```typescript
+   * qc.where({ status: 'spam' }).toDelete({ returning: ['id'] }).toParam();
+   * // DELETE FROM comments WHERE status = $1 RETURNING id
+   *
+   * qc.toDelete(); // throws UnfilteredDeleteError
+   * qc.toDelete({ allowUnfiltered: true }); // DELETE FROM comments
+   * ```
+   */
+  toDelete(options: DeleteOptions = {}): DeleteBuilder {
+    if (!this.hasFilter() && !options.allowUnfiltered) {
+      throw new UnfilteredDeleteError(this.table);
+    }
+
+    const query = new DeleteBuilder().from(this.table);
+    this.applyCtes(query);
+
+    for (const join of this.joins) {
+      query.using(this.getMutationJoinRef(join, 'DELETE'));
+      query.whereArr(join.on, []);
+    }
+
+    this.applyConditions(query);
+    this.applyReturning(query, options.returning);
+    return query;
+  }
+
+  /**
+   * UPDATE ... FROM / DELETE ... USING can only express inner joins
+   */
+  private getMutationJoinRef(join: JoinConfig, statement: 'UPDATE' | 'DELETE'): string {
+    if (join.lateral) {
+      throw new QueryComposerError(`${statement} does not support lateral joins ('${join.alias}')`);
+    }
+    if (join.type !== 'inner') {
+      throw new QueryComposerError(
+        `${statement} only supports inner joins, got '${join.type}' join on '${join.table}'`
+      );
+    }
+    return join.alias ? `${join.table} ${join.alias}` : join.table;
+  }
+
+  private applyReturning(query: { returning(expr: string): unknown }, fields?: string[]): void {
+    if (!fields) return;
+    for (const field of fields) {
+      if (field !== '*' && !this.validateColumn(field)) {
+        // Non-strict: allow non-whitelisted columns, but only safe identifiers
+        validateIdentifier(field);
+      }
+      query.returning(field);
+    }
+  }
+
   /**
    * Get parameterized query for SELECT
    */
-  toParam(): { text: string; values: unknown[] } {
-    return this.toSelect().toParam();
+  toParam(options: SelectOptions = {}): { text: string; values: unknown[] } {
+    return this.toSelect(options).toParam();
   }
 
   /**
@@ -692,8 +1464,136 @@ export class QueryComposer {
   /**
    * Get SQL string (for debugging)
    */
-  toSQL(): string {
-    return this.toSelect().toString();
+  toSQL(options: SelectOptions = {}): string {
+    return this.toSelect(options).toString();
+  }
+
+  // ===========================================================================
+  // EXECUTION METHODS
+  // ===========================================================================
+
+  /**
+   * Parse executed rows with the composer's schema.
+   *
+   * The shape is narrowed to the selected columns (select()/exclude());
+   * whitelisted columns outside the schema (id, timestamps, extraColumns,
+   * joined columns) and computed columns are accepted as-is.
+   * Failing rows are collected into a single ResultValidationError.
+   *
+   * @example
+   * ```typescript
+   * const users = await qc.select(['id', 'age']).parseResults({ coerce: true }).execute(pool);
+   * ```
+   */
+  parseResults(options: ResultValidationOptions = {}): this {
+    this.resultValidation = { ...options };
+    return this;
+  }
+
+  private parseRows(rows: Record<string, unknown>[]): unknown[] {
+    if (!this.resultValidation) return rows;
+
+    // Mirror toSelect(): explicit select, GROUP BY columns for aggregates, or
+    // every whitelisted column (default, extra and joined columns included)
+    const bare = (field: string): string => field.slice(field.lastIndexOf('.') + 1);
+    let pick: string[];
+    if (this.selectedFields.length > 0) {
+      pick = this.selectedFields.map(bare);
+    } else if (this.selectExpressions.some((e) => e.aggregate)) {
+      pick = this.groupByFields.map(bare);
+    } else {
+      pick = [...new Set([...this.whitelistSet].map(bare))];
+    }
+
+    const schema = buildResultSchema(this.schema, {
+      pick,
+      omit: this.excludedFields ? [...this.excludedFields] : undefined,
+      extra: this.selectExpressions.map((e) => e.alias),
+      ...this.resultValidation,
+    });
+
+    const parsed: unknown[] = [];
+    const issues: ResultValidationIssue[] = [];
+    rows.forEach((row, index) => {
+      const result = schema.safeParse(row);
+      if (result.success) {
+        parsed.push(result.data);
+      } else {
+        for (const issue of result.error.issues) {
+          issues.push({ row: index, path: issue.path, message: issue.message });
+        }
+      }
+    });
+
+    if (issues.length > 0) {
+      throw new ResultValidationError(issues);
+    }
+    return parsed;
+  }
+
+  /**
+   * Run the SELECT query and return its rows
+   *
+   * @example
+   * ```typescript
+   * const users = await qc.where({ status: 'active' }).execute(pool);
+   * ```
+   */
+  async execute<R = Record<string, unknown>>(db: DatabaseClient): Promise<R[]> {
+    const rows = await resolveExecutor(db)(this.toParam());
+    return this.parseRows(rows) as R[];
+  }
+
+  /**
+   * Run the SELECT query limited to one row
+   */
+  async first<R = Record<string, unknown>>(db: DatabaseClient): Promise<R | null> {
+    const rows = await resolveExecutor(db)(this.toSelect().limit(1).toParam());
+    return rows.length > 0 ? (this.parseRows(rows)[0] as R) : null;
+  }
+
+  /**
+   * Count matching rows (the number of groups when groupBy() is used)
+   */
+  async count(db: DatabaseClient): Promise<number> {
+    let query = this.toCountParam();
+    if (this.groupByFields.length > 0) {
+      // Grouped COUNT returns one row per group
+      query = { text: `SELECT COUNT(*) AS total FROM (${query.text}) AS grouped`, values: query.values };
+    }
+    const rows = await resolveExecutor(db)(query);
+    // pg returns bigint COUNT as a string
+    return rows.length > 0 ? Number(rows[0].total) : 0;
+  }
+
+  /**
+   * Run the paginated query and build its metadata.
+   *
+   * The total comes from a window count in the same query; a second COUNT
+   * query only runs when the page is past the end.
+   *
+   * @example
+   * ```typescript
+   * const { rows, meta } = await qc.paginate({ page: 2, limit: 20 }).paginateWithMeta(pool);
+   * ```
+   */
+  async paginateWithMeta<R = Record<string, unknown>>(
+    db: DatabaseClient
+  ): Promise<PaginatedResult<R, PaginationMeta>> {
+    if (this.cursorOptions) {
+      throw new QueryComposerError('paginateWithMeta() requires paginate(); use getCursorPage() with cursorPaginate()');
+    }
+
+    const executor = resolveExecutor(db);
+    const query = this.paginationOptions ? this : this.clone().paginate({});
+    const rows = await executor(query.toParam({ withTotal: true }));
+
+    let meta = query.getPaginationMetaFromRows(rows);
+    if (meta.total === undefined) {
+      meta = query.getPaginationMeta(await query.count(executor));
+    }
+
+    return { rows: this.parseRows(rows.map(stripTotal)) as R[], meta };
   }
 
   /**
@@ -708,11 +1608,16 @@ export class QueryComposer {
     cloned.paginationOptions = this.paginationOptions
       ? { ...this.paginationOptions }
       : null;
+    cloned.cursorOptions = this.cursorOptions ? { ...this.cursorOptions } : null;
     cloned.selectedFields = [...this.selectedFields];
     cloned.excludedFields = this.excludedFields ? new Set(this.excludedFields) : null;
+    cloned.selectExpressions = [...this.selectExpressions];
+    cloned.ctes = [...this.ctes];
     cloned.joins = [...this.joins];
+    if (this.joinedColumns.length > 0) cloned.addJoinedColumns(this.joinedColumns);
     cloned.groupByFields = [...this.groupByFields];
     cloned.havingConditions = [...this.havingConditions];
+    cloned.resultValidation = this.resultValidation ? { ...this.resultValidation } : null;
     return cloned;
   }
 
@@ -725,11 +1630,19 @@ export class QueryComposer {
     this.notConditions = [];
     this.sortOptions = [];
     this.paginationOptions = null;
+    this.cursorOptions = null;
     this.selectedFields = [];
     this.excludedFields = null;
+    this.selectExpressions = [];
+    this.ctes = [];
     this.joins = [];
+    if (this.joinedColumns.length > 0) {
+      this.joinedColumns = [];
+      this.whitelistSet = buildWhitelist(this.schema, this.options.extraColumns).set;
+    }
     this.groupByFields = [];
     this.havingConditions = [];
+    this.resultValidation = null;
     return this;
   }
 
@@ -56,15 +56,86 @@ function replaceParams(
   return lastIdx === 0 ? clause : result + clause.slice(lastIdx);
 }
 
+/**
+ * Render parallel WHERE arrays as `a AND b AND ...` (no redundant parens).
+ * Shared by SELECT / UPDATE / DELETE builders.
+ */
+function buildConditions(
+  conds: string[],
+  vals: unknown[][],
+  pidx: PIdx,
+  allValues: unknown[]
+): string {
+  let whereStr = replaceParams(conds[0], vals[0], pidx, allValues);
+  for (let i = 1; i < conds.length; i++) {
+    whereStr += ' AND ' + replaceParams(conds[i], vals[i], pidx, allValues);
+  }
+  return whereStr;
+}
+
+/**
+ * Render parallel CTE arrays as a `WITH a AS (...), b AS (...) ` prefix
+ * (empty when there are none). CTEs lead the statement, so callers render
+ * them first to number their parameters first.
+ */
+function buildWith(
+  names: string[],
+  bodies: string[],
+  vals: unknown[][],
+  pidx: PIdx,
+  allValues: unknown[]
+): string {
+  if (names.length === 0) return '';
+  let prefix = 'WITH ';
+  for (let i = 0; i < names.length; i++) {
+    if (i > 0) prefix += ', ';
+    prefix += names[i] + '(' + replaceParams(bodies[i], vals[i], pidx, allValues) + ')';
+  }
+  return prefix + ' ';
+}
+
+/**
+ * Format a CTE name with its optional MATERIALIZED hint
+ */
+function cteName(name: string, materialized?: boolean): string {
+  const hint = materialized === undefined ? '' : materialized ? 'MATERIALIZED ' : 'NOT MATERIALIZED ';
+  return name + ' AS ' + hint;
+}
+
+/**
+ * Replace $N placeholders with inline literal values (debugging only).
+ * Iterates in reverse order to avoid $1 matching $10.
+ */
+function inlineParams(param: ParamResult): string {
+  const { text, values } = param;
+  let result = text;
+  for (let i = values.length; i >= 1; i--) {
+    const val = values[i - 1];
+    const replacement = typeof val === 'string'
+      ? "'" + val.replace(/'/g, "''") + "'"
+      : val === null ? 'NULL' : String(val);
+    result = result.replace('$' + i, replacement);
+  }
+  return result;
+}
+
 /**
  * Minimal SELECT query builder for PostgreSQL.
  * Produces parameterized queries with $1, $2, ... placeholders.
  * Uses parallel arrays instead of object arrays to minimize allocations.
  */
 export class SelectBuilder {
+  // Parallel arrays for WITH clauses (CTE bodies use ? placeholders)
+  private _cteNames: string[] = [];
+  private _cteBodies: string[] = [];
+  private _cteVals: unknown[][] = [];
   private _table = '';
   private _fields: string[] = [];
+  // Sparse values per field index — only populated by fieldArr()
+  private _fVals: Array<unknown[] | undefined> = [];
   private _joins: string[] = [];
+  // Sparse values per join index — only populated by lateral_join()
+  private _jVals: Array<unknown[] | undefined> = [];
   // Parallel arrays for WHERE clauses — avoids per-clause object allocation
   private _wConds: string[] = [];
   private _wVals: unknown[][] = [];
@@ -76,6 +147,17 @@ export class SelectBuilder {
   private _limit: number | null = null;
   private _offset: number | null = null;
 
+  /**
+   * Add a named CTE. `materialized` renders MATERIALIZED / NOT MATERIALIZED
+   * when set; the body uses ? placeholders re-numbered at build time.
+   */
+  with(name: string, body: string, values: unknown[], materialized?: boolean): this {
+    this._cteNames.push(cteName(name, materialized));
+    this._cteBodies.push(body);
+    this._cteVals.push(values);
+    return this;
+  }
+
   from(table: string): this {
     this._table = table;
     return this;
@@ -86,8 +168,18 @@ export class SelectBuilder {
     return this;
   }
 
+  /**
+   * Add a parameterized field expression (e.g. window/aggregate with ? placeholders)
+   */
+  fieldArr(expr: string, values: unknown[], alias?: string): this {
+    this._fVals[this._fields.length] = values;
+    this._fields.push(alias ? expr + ' AS ' + alias : expr);
+    return this;
+  }
+
   fields(fieldList: string[]): this {
     this._fields = fieldList;
+    this._fVals = [];
     return this;
   }
 
@@ -106,6 +198,15 @@ export class SelectBuilder {
     return this;
   }
 
+  /**
+   * Add a LATERAL subquery join; the body uses ? placeholders
+   */
+  lateral_join(kind: 'INNER' | 'LEFT', body: string, alias: string, on: string, values: unknown[]): this {
+    this._jVals[this._joins.length] = values;
+    this._joins.push(kind + ' JOIN LATERAL (' + body + ') ' + alias + ' ON (' + on + ')');
+    return this;
+  }
+
   where(condition: string, ...values: unknown[]): this {
     this._wConds.push(condition);
     this._wVals.push(values);
@@ -154,9 +255,21 @@ export class SelectBuilder {
     const allValues: unknown[] = [];
     const pidx: PIdx = { v: 0 };
 
+    // WITH — CTEs lead the statement, so their parameters are numbered first
+    const prefix = buildWith(this._cteNames, this._cteBodies, this._cteVals, pidx, allValues);
+
     // SELECT — build fields inline to avoid join
     let sql: string;
-    if (this._fields.length > 0) {
+    if (this._fVals.length > 0) {
+      // Parameterized fields come first in the statement — number them first
+      sql = 'SELECT ';
+      for (let i = 0; i < this._fields.length; i++) {
+        if (i > 0) sql += ', ';
+        const vals = this._fVals[i];
+        sql += vals ? replaceParams(this._fields[i], vals, pidx, allValues) : this._fields[i];
+      }
+      sql += ' FROM ' + this._table;
+    } else if (this._fields.length > 0) {
       sql = 'SELECT ' + this._fields[0];
       for (let i = 1; i < this._fields.length; i++) {
         sql += ', ' + this._fields[i];
@@ -168,16 +281,13 @@ export class SelectBuilder {
 
     // JOINs
     for (let i = 0; i < this._joins.length; i++) {
-      sql += ' ' + this._joins[i];
+      const vals = this._jVals[i];
+      sql += ' ' + (vals ? replaceParams(this._joins[i], vals, pidx, allValues) : this._joins[i]);
     }
 
     // WHERE — build inline using parallel arrays (no redundant parens)
     if (this._wConds.length > 0) {
-      let whereStr = replaceParams(this._wConds[0], this._wVals[0], pidx, allValues);
-      for (let i = 1; i < this._wConds.length; i++) {
-        whereStr += ' AND ' + replaceParams(this._wConds[i], this._wVals[i], pidx, allValues);
-      }
-      sql += ' WHERE ' + whereStr;
+      sql += ' WHERE ' + buildConditions(this._wConds, this._wVals, pidx, allValues);
     }
 
     // GROUP BY — build inline
@@ -217,24 +327,14 @@ export class SelectBuilder {
       sql += ' OFFSET $' + pidx.v;
     }
 
-    return { text: sql, values: allValues };
+    return { text: prefix + sql, values: allValues };
   }
 
   /**
    * Build SQL string with inline values (for debugging / subqueries)
    */
   toString(): string {
-    const { text, values } = this.toParam();
-    let result = text;
-    // Replace $N with inline values (reverse order to avoid $1 matching $10)
-    for (let i = values.length; i >= 1; i--) {
-      const val = values[i - 1];
-      const replacement = typeof val === 'string'
-        ? "'" + val.replace(/'/g, "''") + "'"
-        : val === null ? 'NULL' : String(val);
-      result = result.replace('$' + i, replacement);
-    }
-    return result;
+    return inlineParams(this.toParam());
   }
 }
 
@@ -244,3 +344,433 @@ export class SelectBuilder {
 export function select(): SelectBuilder {
   return new SelectBuilder();
 }
+
+/**
+ * Compound SELECT builder (UNION / INTERSECT / EXCEPT).
+ * Each arm is parenthesized so arms may carry their own ORDER BY / LIMIT;
+ * the outer ORDER BY / LIMIT / OFFSET apply to the combined result.
+ */
+export class CompoundSelectBuilder {
+  // Parallel arrays for arms — first operator is unused
+  private _ops: string[] = [];
+  private _bodies: string[] = [];
+  private _vals: unknown[][] = [];
+  private _orders: string[] = [];
+  private _limit: number | null = null;
+  private _offset: number | null = null;
+
+  /**
+   * Add an arm. `body` uses ? placeholders re-numbered at build time.
+   */
+  add(operator: string, body: string, values: unknown[]): this {
+    this._ops.push(operator);
+    this._bodies.push(body);
+    this._vals.push(values);
+    return this;
+  }
+
+  order(column: string, asc: boolean): this {
+    this._orders.push(column + (asc ? ' ASC' : ' DESC'));
+    return this;
+  }
+
+  limit(n: number): this {
+    this._limit = n;
+    return this;
+  }
+
+  offset(n: number): this {
+    this._offset = n;
+    return this;
+  }
+
+  /**
+   * Build parameterized query with $1, $2, ... placeholders
+   */
+  toParam(): ParamResult {
+    const allValues: unknown[] = [];
+    const pidx: PIdx = { v: 0 };
+
+    let sql = '';
+    for (let i = 0; i < this._bodies.length; i++) {
+      if (i > 0) {
+        // INTERSECT binds tighter than UNION / EXCEPT — group the arms so
+        // far whenever the operator changes to keep left-to-right order
+        if (i > 1 && this._ops[i] !== this._ops[i - 1]) sql = '(' + sql + ')';
+        sql += ' ' + this._ops[i] + ' ';
+      }
+      sql += '(' + replaceParams(this._bodies[i], this._vals[i], pidx, allValues) + ')';
+    }
+
+    if (this._orders.length > 0) {
+      sql += ' ORDER BY ' + this._orders.join(', ');
+    }
+
+    if (this._limit !== null) {
+      pidx.v++;
+      allValues.push(this._limit);
+      sql += ' LIMIT $' + pidx.v;
+    }
+    if (this._offset !== null) {
+      pidx.v++;
+      allValues.push(this._offset);
+      sql += ' OFFSET $' + pidx.v;
+    }
+
+    return { text: sql, values: allValues };
+  }
+
+  /**
+   * Build SQL string with inline values (for debugging)
+   */
+  toString(): string {
+    return inlineParams(this.toParam());
+  }
+}
+
+/**
+ * Minimal INSERT query builder for PostgreSQL.
+ * Supports multi-row VALUES lists, ON CONFLICT and RETURNING.
+ * Rows are positional arrays matching the column list; `undefined`
+ * entries render as DEFAULT so sparse rows can share one statement.
+ */
+export class InsertBuilder {
+  private _table = '';
+  private _columns: string[] = [];
+  private _rows: unknown[][] = [];
+  private _returning: string[] = [];
+  // ON CONFLICT clause — null action means no ON CONFLICT
+  private _conflictTarget: string[] = [];
+  private _conflictAction: 'nothing' | 'update' | null = null;
+  private _conflictSets: string[] = [];
+  // Parallel arrays for the DO UPDATE ... WHERE clause
+  private _cwConds: string[] = [];
+  private _cwVals: unknown[][] = [];
+
+  into(table: string): this {
+    this._table = table;
+    return this;
+  }
+
+  columns(columnList: string[]): this {
+    this._columns = columnList;
+    return this;
+  }
+
+  /**
+   * Add a row of values (positional, matching columns())
+   */
+  values(row: unknown[]): this {
+    this._rows.push(row);
+    return this;
+  }
+
+  returning(expr: string): this {
+    this._returning.push(expr);
+    return this;
+  }
+
+  /**
+   * Set the ON CONFLICT target columns (may be empty for DO NOTHING)
+   */
+  onConflict(target: string[]): this {
+    this._conflictTarget = target;
+    return this;
+  }
+
+  doNothing(): this {
+    this._conflictAction = 'nothing';
+    return this;
+  }
+
+  /**
+   * Add a DO UPDATE SET assignment, e.g. `name = EXCLUDED.name`
+   */
+  doUpdate(assignment: string): this {
+    this._conflictAction = 'update';
+    this._conflictSets.push(assignment);
+    return this;
+  }
+
+  /**
+   * Add a condition to the DO UPDATE ... WHERE clause
+   */
+  conflictWhereArr(condition: string, values: unknown[]): this {
+    this._cwConds.push(condition);
+    this._cwVals.push(values);
+    return this;
+  }
+
+  /**
+   * Build parameterized query with $1, $2, ... placeholders
+   */
+  toParam(): ParamResult {
+    const allValues: unknown[] = [];
+    const pidx: PIdx = { v: 0 };
+
+    let sql = 'INSERT INTO ' + this._table + ' (' + this._columns.join(', ') + ') VALUES ';
+
+    for (let r = 0; r < this._rows.length; r++) {
+      const row = this._rows[r];
+      if (r > 0) sql += ', ';
+      sql += '(';
+      for (let c = 0; c < this._columns.length; c++) {
+        if (c > 0) sql += ', ';
+        const val = row[c];
+        if (val === undefined) {
+          sql += 'DEFAULT';
+        } else {
+          pidx.v++;
+          allValues.push(val);
+          sql += '$' + pidx.v;
+        }
+      }
+      sql += ')';
+    }
+
+    if (this._conflictAction !== null) {
+      sql += ' ON CONFLICT';
+      if (this._conflictTarget.length > 0) {
+        sql += ' (' + this._conflictTarget.join(', ') + ')';
+      }
+      if (this._conflictAction === 'nothing') {
+        sql += ' DO NOTHING';
+      } else {
+        sql += ' DO UPDATE SET ' + this._conflictSets.join(', ');
+        if (this._cwConds.length > 0) {
+          sql += ' WHERE ' + buildConditions(this._cwConds, this._cwVals, pidx, allValues);
+        }
+      }
+    }
+
+    if (this._returning.length > 0) {
+      sql += ' RETURNING ' + this._returning.join(', ');
+    }
+
+    return { text: sql, values: allValues };
+  }
+
+  /**
+   * Build SQL string with inline values (for debugging)
+   */
+  toString(): string {
+    return inlineParams(this.toParam());
+  }
+}
+
+/**
+ * Create a new INSERT builder
+ */
+export function insert(): InsertBuilder {
+  return new InsertBuilder();
+}
+
+/**
+ * Minimal UPDATE query builder for PostgreSQL.
+ * CTE values are numbered first, then SET values, then WHERE values.
+ * Additional FROM tables render as `UPDATE ... FROM t1, t2`; their join
+ * predicates are expected as WHERE conditions.
+ */
+export class UpdateBuilder {
+  // Parallel arrays for WITH clauses (CTE bodies use ? placeholders)
+  private _cteNames: string[] = [];
+  private _cteBodies: string[] = [];
+  private _cteVals: unknown[][] = [];
+  private _table = '';
+  // Parallel arrays for SET assignments
+  private _setCols: string[] = [];
+  private _setVals: unknown[] = [];
+  private _from: string[] = [];
+  // Parallel arrays for WHERE clauses
+  private _wConds: string[] = [];
+  private _wVals: unknown[][] = [];
+  private _returning: string[] = [];
+
+  table(table: string): this {
+    this._table = table;
+    return this;
+  }
+
+  /**
+   * Add a named CTE rendered before the statement
+   */
+  with(name: string, body: string, values: unknown[], materialized?: boolean): this {
+    this._cteNames.push(cteName(name, materialized));
+    this._cteBodies.push(body);
+    this._cteVals.push(values);
+    return this;
+  }
+
+  set(column: string, value: unknown): this {
+    this._setCols.push(column);
+    this._setVals.push(value);
+    return this;
+  }
+
+  from(tableRef: string): this {
+    this._from.push(tableRef);
+    return this;
+  }
+
+  where(condition: string, ...values: unknown[]): this {
+    this._wConds.push(condition);
+    this._wVals.push(values);
+    return this;
+  }
+
+  /**
+   * Add WHERE clause with values as array (avoids spread overhead)
+   */
+  whereArr(condition: string, values: unknown[]): this {
+    this._wConds.push(condition);
+    this._wVals.push(values);
+    return this;
+  }
+
+  returning(expr: string): this {
+    this._returning.push(expr);
+    return this;
+  }
+
+  /**
+   * Build parameterized query with $1, $2, ... placeholders
+   */
+  toParam(): ParamResult {
+    const allValues: unknown[] = [];
+    const pidx: PIdx = { v: 0 };
+
+    let sql = buildWith(this._cteNames, this._cteBodies, this._cteVals, pidx, allValues)
+      + 'UPDATE ' + this._table + ' SET ';
+    for (let i = 0; i < this._setCols.length; i++) {
+      if (i > 0) sql += ', ';
+      pidx.v++;
+      allValues.push(this._setVals[i]);
+      sql += this._setCols[i] + ' = $' + pidx.v;
+    }
+
+    if (this._from.length > 0) {
+      sql += ' FROM ' + this._from.join(', ');
+    }
+
+    if (this._wConds.length > 0) {
+      sql += ' WHERE ' + buildConditions(this._wConds, this._wVals, pidx, allValues);
+    }
+
+    if (this._returning.length > 0) {
+      sql += ' RETURNING ' + this._returning.join(', ');
+    }
+
+    return { text: sql, values: allValues };
+  }
+
+  /**
+   * Build SQL string with inline values (for debugging)
+   */
+  toString(): string {
+    return inlineParams(this.toParam());
+  }
+}
+
+/**
+ * Create a new UPDATE builder
+ */
+export function update(): UpdateBuilder {
+  return new UpdateBuilder();
+}
+
+/**
+ * Minimal DELETE query builder for PostgreSQL.
+ * Additional USING tables render as `DELETE FROM ... USING t1, t2`; their
+ * join predicates are expected as WHERE conditions.
+ */
+export class DeleteBuilder {
+  // Parallel arrays for WITH clauses (CTE bodies use ? placeholders)
+  private _cteNames: string[] = [];
+  private _cteBodies: string[] = [];
+  private _cteVals: unknown[][] = [];
+  private _table = '';
+  private _using: string[] = [];
+  // Parallel arrays for WHERE clauses
+  private _wConds: string[] = [];
+  private _wVals: unknown[][] = [];
+  private _returning: string[] = [];
+
+  from(table: string): this {
+    this._table = table;
+    return this;
+  }
+
+  /**
+   * Add a named CTE rendered before the statement
+   */
+  with(name: string, body: string, values: unknown[], materialized?: boolean): this {
+    this._cteNames.push(cteName(name, materialized));
+    this._cteBodies.push(body);
+    this._cteVals.push(values);
+    return this;
+  }
+
+  using(tableRef: string): this {
+    this._using.push(tableRef);
+    return this;
+  }
+
+  where(condition: string, ...values: unknown[]): this {
+    this._wConds.push(condition);
+    this._wVals.push(values);
+    return this;
+  }
+
+  /**
+   * Add WHERE clause with values as array (avoids spread overhead)
+   */
+  whereArr(condition: string, values: unknown[]): this {
+    this._wConds.push(condition);
+    this._wVals.push(values);
+    return this;
+  }
+
+  returning(expr: string): this {
+    this._returning.push(expr);
+    return this;
+  }
+
+  /**
+   * Build parameterized query with $1, $2, ... placeholders
+   */
+  toParam(): ParamResult {
+    const allValues: unknown[] = [];
+    const pidx: PIdx = { v: 0 };
+
+    let sql = buildWith(this._cteNames, this._cteBodies, this._cteVals, pidx, allValues)
+      + 'DELETE FROM ' + this._table;
+
+    if (this._using.length > 0) {
+      sql += ' USING ' + this._using.join(', ');
+    }
+
+    if (this._wConds.length > 0) {
+      sql += ' WHERE ' + buildConditions(this._wConds, this._wVals, pidx, allValues);
+    }
+
+    if (this._returning.length > 0) {
+      sql += ' RETURNING ' + this._returning.join(', ');
+    }
+
+    return { text: sql, values: allValues };
+  }
+
+  /**
+   * Build SQL string with inline values (for debugging)
+   */
+  toString(): string {
+    return inlineParams(this.toParam());
+  }
+}
+
+/**
+ * Create a new DELETE builder
+ */
+export function deleteFrom(): DeleteBuilder {
+  return new DeleteBuilder();
+}
@@ -88,6 +88,49 @@ export interface PaginationMeta {
   hasPrev?: boolean;
 }
 
+/**
+ * Options for building the SELECT query
+ */
+export interface SelectOptions {
+  /** Add `COUNT(*) OVER() AS __total` so one query returns rows and the total */
+  withTotal?: boolean;
+}
+
+/**
+ * Keyset (cursor) pagination options
+ */
+export interface CursorPaginationOptions {
+  limit?: number;
+  maxLimit?: number;
+  /** Opaque cursor — fetch rows after it */
+  after?: string;
+  /** Opaque cursor — fetch rows before it */
+  before?: string;
+  /** Unique column appended to the sort list when missing (default: 'id') */
+  tieBreaker?: string;
+}
+
+/**
+ * Keyset (cursor) pagination result metadata
+ */
+export interface CursorPaginationMeta {
+  limit: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * Internal keyset pagination state (cursors already decoded)
+ */
+export interface CursorState {
+  limit: number;
+  after?: unknown[];
+  before?: unknown[];
+  tieBreaker: string;
+}
+
 /**
  * Sort direction
  */
@@ -101,6 +144,110 @@ export interface SortOption {
   direction: SortDirection;
 }
 
+/**
+ * Aggregate function names
+ */
+export type AggregateFunction =
+  | 'count'
+  | 'count_distinct'
+  | 'sum'
+  | 'avg'
+  | 'min'
+  | 'max'
+  | 'array_agg'
+  | 'string_agg'
+  | 'bool_and'
+  | 'bool_or';
+
+/**
+ * Aggregate specification
+ */
+export interface AggregateSpec {
+  fn: AggregateFunction;
+  /** Argument column ('*' allowed for count) */
+  column?: string;
+  /** Delimiter for string_agg (parameterized, default ',') */
+  separator?: string;
+}
+
+/**
+ * Window function names
+ */
+export type WindowFunctionName =
+  | 'row_number'
+  | 'rank'
+  | 'dense_rank'
+  | 'lag'
+  | 'lead'
+  | 'first_value'
+  | 'last_value'
+  | 'count'
+  | 'sum'
+  | 'avg'
+  | 'min'
+  | 'max';
+
+/**
+ * Window frame boundary
+ */
+export type WindowFrameBound =
+  | 'unboundedPreceding'
+  | 'currentRow'
+  | 'unboundedFollowing'
+  | { preceding: number }
+  | { following: number };
+
+/**
+ * Window frame clause (ROWS / RANGE / GROUPS)
+ */
+export interface WindowFrame {
+  mode?: 'rows' | 'range' | 'groups';
+  start: WindowFrameBound;
+  end?: WindowFrameBound;
+}
+
+/**
+ * Window function specification
+ */
+export interface WindowFunctionSpec {
+  fn: WindowFunctionName;
+  /** Argument column ('*' allowed for count) */
+  column?: string;
+  /** Row offset for lag/lead (default 1) */
+  offset?: number;
+  /** Fallback value for lag/lead (parameterized) */
+  defaultValue?: unknown;
+  partitionBy?: string[];
+  /** Sort list using orderBy() syntax ('-column' for DESC) */
+  orderBy?: string[];
+  frame?: WindowFrame;
+}
+
+/**
+ * How unknown keys in result rows are handled
+ */
+export type ResultValidationMode = 'strict' | 'passthrough' | 'strip';
+
+/**
+ * Options for parsing executed rows with the composer's schema
+ */
+export interface ResultValidationOptions {
+  /** Reject ('strict'), keep ('passthrough') or drop ('strip', default) unknown keys */
+  mode?: ResultValidationMode;
+  /** Convert driver strings to numbers, bigints, dates and booleans before validating */
+  coerce?: boolean;
+}
+
+/**
+ * Single validation failure within a result set
+ */
+export interface ResultValidationIssue {
+  /** Index of the offending row */
+  row: number;
+  path: (string | number)[];
+  message: string;
+}
+
 /**
  * Query builder options
  */
@@ -134,9 +281,52 @@ export interface OrGroup {
  */
 export interface JoinConfig {
   type: 'inner' | 'left' | 'right' | 'full';
+  /** Table name, or the subquery body (? placeholders) for lateral joins */
   table: string;
   alias?: string;
   on: string;
+  lateral?: boolean;
+  values?: unknown[];
+}
+
+/**
+ * Lateral subquery created by lateral()
+ */
+export interface LateralSubquery {
+  sql: string;
+  values: unknown[];
+  alias: string;
+  type: 'lateral';
+}
+
+/**
+ * Computed select expression (window functions, aggregates, ...)
+ */
+export interface SelectExpression {
+  expression: string;
+  alias: string;
+  values: unknown[];
+  /** Aggregate expressions replace the implicit `*` with the GROUP BY columns */
+  aggregate?: boolean;
+}
+
+/**
+ * Common table expression attached via with()
+ */
+export interface CteConfig {
+  name: string;
+  /** CTE body with ? placeholders */
+  text: string;
+  values: unknown[];
+  materialized?: boolean;
+}
+
+/**
+ * Options for with()
+ */
+export interface CteOptions {
+  /** true → MATERIALIZED, false → NOT MATERIALIZED, unset → planner decides */
+  materialized?: boolean;
 }
 
 /**
@@ -146,3 +336,40 @@ export interface HavingCondition {
   condition: string;
   values: unknown[];
 }
+
+/**
+ * Options for INSERT queries
+ */
+export interface InsertOptions {
+  returning?: string[];
+}
+
+/**
+ * Options for INSERT ... ON CONFLICT queries
+ */
+export interface UpsertOptions extends InsertOptions {
+  /** Conflict target columns (unique/primary key); required for DO UPDATE */
+  conflictTarget?: string[];
+  /** Columns overwritten from EXCLUDED (default: all inserted columns not in the target) */
+  update?: string[];
+  /** Use DO NOTHING instead of DO UPDATE */
+  doNothing?: boolean;
+  /** Filters (field__operator) on the existing row that gate the DO UPDATE */
+  where?: Record<string, unknown>;
+}
+
+/**
+ * Options for UPDATE queries
+ */
+export interface UpdateOptions {
+  returning?: string[];
+}
+
+/**
+ * Options for DELETE queries
+ */
+export interface DeleteOptions {
+  returning?: string[];
+  /** Allow DELETE without any where()/or()/not() conditions */
+  allowUnfiltered?: boolean;
+}
@@ -0,0 +1,115 @@
+import { QueryComposerError } from './errors';
+import type { SortOption, WindowFrame, WindowFrameBound, WindowFunctionSpec } from './types';
+
+// Functions that take no argument column
+const RANKING_FUNCTIONS: ReadonlySet<string> = new Set(['row_number', 'rank', 'dense_rank']);
+
+// All supported window functions
+const WINDOW_FUNCTIONS: ReadonlySet<string> = new Set([
+  'row_number', 'rank', 'dense_rank',
+  'lag', 'lead', 'first_value', 'last_value',
+  'count', 'sum', 'avg', 'min', 'max',
+]);
+
+/**
+ * Validate a frame offset / lag-lead offset — inlined into SQL, so it must
+ * be a non-negative integer.
+ */
+function assertOffset(value: number, what: string): void {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new QueryComposerError(`Window ${what} must be a non-negative integer, got ${value}`);
+  }
+}
+
+function buildFrameBound(bound: WindowFrameBound): string {
+  if (bound === 'unboundedPreceding') return 'UNBOUNDED PRECEDING';
+  if (bound === 'currentRow') return 'CURRENT ROW';
+  if (bound === 'unboundedFollowing') return 'UNBOUNDED FOLLOWING';
+  if ('preceding' in bound) {
+    assertOffset(bound.preceding, 'frame offset');
+    return bound.preceding + ' PRECEDING';
+  }
+  if ('following' in bound) {
+    assertOffset(bound.following, 'frame offset');
+    return bound.following + ' FOLLOWING';
+  }
+  throw new QueryComposerError(`Invalid window frame bound: ${JSON.stringify(bound)}`);
+}
+
+function buildFrame(frame: WindowFrame): string {
+  const mode = (frame.mode ?? 'rows').toUpperCase();
+  if (mode !== 'ROWS' && mode !== 'RANGE' && mode !== 'GROUPS') {
+    throw new QueryComposerError(`Invalid window frame mode: ${frame.mode}`);
+  }
+  if (frame.end === undefined) {
+    return mode + ' ' + buildFrameBound(frame.start);
+  }
+  return mode + ' BETWEEN ' + buildFrameBound(frame.start) + ' AND ' + buildFrameBound(frame.end);
+}
+
+/**
+ * Build a window function expression with ? placeholders.
+ *
+ * Column names (spec.column, spec.partitionBy) and the parsed sort list must
+ * already be validated by the caller; this only assembles SQL.
+ *
+ * @example
+ * ```typescript
+ * buildWindowFunction({ fn: 'lag', column: 'score', defaultValue: 0, partitionBy: ['team_id'] },
+ *   [{ column: 'played_at', direction: 'ASC' }]);
+ * // ['LAG(score, 1, ?) OVER (PARTITION BY team_id ORDER BY played_at ASC)', [0]]
+ * ```
+ */
+export function buildWindowFunction(
+  spec: WindowFunctionSpec,
+  orderBy: SortOption[]
+): [string, unknown[]] {
+  const fn = spec.fn;
+  if (!WINDOW_FUNCTIONS.has(fn)) {
+    throw new QueryComposerError(`Invalid window function '${fn}'`);
+  }
+
+  const values: unknown[] = [];
+  let call: string;
+  if (RANKING_FUNCTIONS.has(fn)) {
+    call = fn.toUpperCase() + '()';
+  } else {
+    if (!spec.column) {
+      throw new QueryComposerError(`Window function '${fn}' requires a column`);
+    }
+    if (spec.column === '*' && fn !== 'count') {
+      throw new QueryComposerError(`Window function '${fn}' does not accept '*'`);
+    }
+    call = fn.toUpperCase() + '(' + spec.column;
+    if (fn === 'lag' || fn === 'lead') {
+      const offset = spec.offset ?? 1;
+      assertOffset(offset, 'offset');
+      if (spec.offset !== undefined || spec.defaultValue !== undefined) {
+        call += ', ' + offset;
+      }
+      if (spec.defaultValue !== undefined) {
+        call += ', ?';
+        values.push(spec.defaultValue);
+      }
+    }
+    call += ')';
+  }
+
+  let over = '';
+  if (spec.partitionBy && spec.partitionBy.length > 0) {
+    over = 'PARTITION BY ' + spec.partitionBy.join(', ');
+  }
+  if (orderBy.length > 0) {
+    if (over) over += ' ';
+    over += 'ORDER BY ' + orderBy[0].column + ' ' + orderBy[0].direction;
+    for (let i = 1; i < orderBy.length; i++) {
+      over += ', ' + orderBy[i].column + ' ' + orderBy[i].direction;
+    }
+  }
+  if (spec.frame) {
+    if (over) over += ' ';
+    over += buildFrame(spec.frame);
+  }
+
+  return [call + ' OVER (' + over + ')', values];
+}
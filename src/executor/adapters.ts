@@ -0,0 +1,58 @@
+import { QueryComposerError } from '../core/errors';
+import type {
+  DatabaseClient,
+  PgClient,
+  PostgresJsClient,
+  QueryExecutor,
+} from './types';
+
+/**
+ * Create an executor backed by node-postgres
+ *
+ * @example
+ * ```typescript
+ * const pool = new Pool();
+ * const executor = createPgExecutor(pool);
+ * const rows = await executor(qc.toParam());
+ * ```
+ */
+export function createPgExecutor(client: PgClient): QueryExecutor {
+  return async (query) => {
+    const result = await client.query(query.text, query.values);
+    return result.rows;
+  };
+}
+
+/**
+ * Create an executor backed by postgres.js
+ *
+ * Uses `sql.unsafe()` since the query text is already parameterized.
+ */
+export function createPostgresJsExecutor(sql: PostgresJsClient): QueryExecutor {
+  return async (query) => {
+    const rows = await sql.unsafe(query.text, query.values);
+    return Array.from(rows);
+  };
+}
+
+/**
+ * Resolve a database client into a QueryExecutor
+ *
+ * Accepts an executor function, a postgres.js `sql` instance or a
+ * node-postgres pool/client.
+ */
+export function resolveExecutor(db: DatabaseClient): QueryExecutor {
+  // postgres.js `sql` is itself a function — check for unsafe() first
+  if (typeof (db as PostgresJsClient).unsafe === 'function') {
+    return createPostgresJsExecutor(db as PostgresJsClient);
+  }
+  if (typeof db === 'function') {
+    return db;
+  }
+  if (db && typeof (db as PgClient).query === 'function') {
+    return createPgExecutor(db as PgClient);
+  }
+  throw new QueryComposerError(
+    'Unsupported database client. Pass a pg Pool/Client, a postgres.js sql instance or an executor function'
+  );
+}
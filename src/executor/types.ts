@@ -0,0 +1,46 @@
+/**
+ * Parameterized query passed to executors
+ */
+export interface ParameterizedQuery {
+  text: string;
+  values: unknown[];
+}
+
+/**
+ * Query executor function type
+ *
+ * The generic execution interface — any driver can be plugged in by
+ * wrapping it in a function that resolves to the result rows.
+ */
+export type QueryExecutor = (
+  query: ParameterizedQuery
+) => Promise<Record<string, unknown>[]>;
+
+/**
+ * node-postgres client (`pg.Pool`, `pg.Client` or `pg.PoolClient`)
+ *
+ * Typed structurally so `pg` stays an optional dependency.
+ */
+export interface PgClient {
+  query(text: string, values?: unknown[]): Promise<{ rows: Record<string, unknown>[] }>;
+}
+
+/**
+ * postgres.js `sql` instance (or transaction)
+ */
+export interface PostgresJsClient {
+  unsafe(query: string, parameters?: unknown[]): PromiseLike<Record<string, unknown>[]>;
+}
+
+/**
+ * Anything QueryComposer can run against
+ */
+export type DatabaseClient = QueryExecutor | PgClient | PostgresJsClient;
+
+/**
+ * Paginated result with metadata
+ */
+export interface PaginatedResult<T, M> {
+  rows: T[];
+  meta: M;
+}
@@ -11,6 +11,9 @@ export const VERSION = '1.0.1';
 
 // Core exports
 export { QueryComposer, createQueryComposer } from './core/query-composer';
+export { CompoundQuery } from './core/compound-query';
+export type { SetOperator, SetOperand } from './core/compound-query';
+export { encodeCursor, decodeCursor } from './core/cursor';
 export type {
   QueryOperator,
   ComparisonOperator,
@@ -21,13 +24,33 @@ export type {
   ArrayOperator,
   PaginationOptions,
   PaginationMeta,
+  SelectOptions,
+  CursorPaginationOptions,
+  CursorPaginationMeta,
   SortDirection,
   SortOption,
   QueryBuilderOptions,
   Condition,
   OrGroup,
   JoinConfig,
+  LateralSubquery,
   HavingCondition,
+  CteConfig,
+  CteOptions,
+  SelectExpression,
+  AggregateFunction,
+  AggregateSpec,
+  WindowFunctionName,
+  WindowFrameBound,
+  WindowFrame,
+  WindowFunctionSpec,
+  InsertOptions,
+  UpsertOptions,
+  UpdateOptions,
+  DeleteOptions,
+  ResultValidationMode,
+  ResultValidationOptions,
+  ResultValidationIssue,
 } from './core/types';
 export { OPERATORS, VALID_OPERATORS } from './core/operators';
 export type { OperatorHandler } from './core/operators';
@@ -37,6 +60,10 @@ export {
   RelationNotFoundError,
   SubqueryError,
   TypeMismatchError,
+  UnfilteredDeleteError,
+  InvalidCursorError,
+  ResultValidationError,
+  InsertValidationError,
   QueryComposerError,
 } from './core/errors';
 
@@ -68,6 +95,21 @@ export { merge, mergeAll } from './composition/merge';
 export { subquery, subqueryAs, rawSubquery } from './subquery/builder';
 export { exists, notExists, ref, raw, lateral } from './subquery/exists';
 
+// Executor exports
+export {
+  createPgExecutor,
+  createPostgresJsExecutor,
+  resolveExecutor,
+} from './executor/adapters';
+export type {
+  QueryExecutor,
+  ParameterizedQuery,
+  PgClient,
+  PostgresJsClient,
+  DatabaseClient,
+  PaginatedResult,
+} from './executor/types';
+
 // Relations exports
 export {
   defineModel,
@@ -77,23 +119,54 @@ export {
   getRelationNames,
   clearModelRegistry,
   getAllModels,
+  resolveTargetModel,
+  createModelRegistry,
+  getModelRegistry,
 } from './relations/define';
 export {
   createModelQuery,
   ModelQueryComposer,
   normalizeIncludeOptions,
 } from './relations/include';
+export {
+  SOFT_DELETE_SCOPE,
+  applyDefaultScopes,
+  getSoftDeleteColumn,
+  getDefaultScopeNames,
+} from './relations/scopes';
+export { validateModelRegistry } from './relations/validate';
+export {
+  buildCorrelatedQuery,
+  buildJsonSubselect,
+  buildRelationAggregate,
+  buildRelationJoins,
+  resolveRelationPath,
+  buildRelationExistsQuery,
+  joinPivot,
+  selectPivot,
+} from './relations/correlation';
+export type { RelationHop, RelationJoin } from './relations/correlation';
 export type {
   RelationType,
   BelongsToRelation,
   HasOneRelation,
   HasManyRelation,
   HasManyThroughRelation,
+  MorphToRelation,
+  MorphManyRelation,
   RelationConfig,
+  RelationKey,
   ModelDefinition,
+  ModelConfig,
+  ModelRegistry,
   IncludeOptions,
+  IncludeStrategy,
+  RelationAggregateOptions,
   LoadedRelation,
   BatchLoadConfig,
+  RegistryIssue,
+  RegistryIssueCode,
+  RegistryReport,
 } from './relations/types';
 export {
   createRelationLoader,
@@ -102,8 +175,8 @@ export {
   groupByKey,
   createAllRelationLoaders,
   loadRelation,
+  loadIncludes,
 } from './relations/loader';
-export type { QueryExecutor } from './relations/loader';
 
 // Type-safe exports
 export { TypedQueryComposer, createTypedComposer, typedFilter } from './types/infer';
@@ -153,5 +226,6 @@ export {
 } from './pg/recursive';
 
 // Utility exports
-export { extractZodColumns } from './utils/zod-utils';
+export { extractZodColumns, buildResultSchema, getZodColumnType } from './utils/zod-utils';
+export type { ResultSchemaOptions } from './utils/zod-utils';
 export { validateIdentifier } from './core/identifier-validation';
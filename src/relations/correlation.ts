@@ -0,0 +1,457 @@
+import type * as z from 'zod';
+import { QueryComposer } from '../core/query-composer';
+import { InvalidColumnError, InvalidOperatorError, QueryComposerError, RelationNotFoundError } from '../core/errors';
+import { OPERATORS, VALID_OPERATORS_SET } from '../core/operators';
+import { validateIdentifier } from '../core/identifier-validation';
+import type { AggregateSpec, QueryOperator } from '../core/types';
+import { extractZodColumns } from '../utils/zod-utils';
+import type {
+  HasManyThroughRelation,
+  IncludeOptions,
+  ModelDefinition,
+  ModelRegistry,
+  MorphManyRelation,
+  MorphToRelation,
+  RelationConfig,
+  RelationKey,
+} from './types';
+import { getModelRegistry, getRelation } from './define';
+import { exists } from '../subquery/exists';
+import { keyEquals } from './keys';
+import { applyDefaultScopes } from './scopes';
+
+/**
+ * One step of a relation path: the relation and the model it belongs to
+ */
+export interface RelationHop {
+  model: ModelDefinition;
+  relation: RelationConfig;
+}
+
+/**
+ * Relations with a single target table (everything but morphTo)
+ */
+export type TargetRelation = Exclude<RelationConfig, MorphToRelation>;
+
+/**
+ * Narrow to a relation with a single target table. morphTo points at a
+ * different table per row, so it can only be batch loaded.
+ */
+export function assertTargetRelation(relation: RelationConfig): asserts relation is TargetRelation {
+  if (relation.type === 'morphTo') {
+    throw new QueryComposerError(
+      `morphTo relation on '${relation.morphType}' has no single target table and can only be batch loaded`
+    );
+  }
+}
+
+/**
+ * Schema for a relation's target query — the target's own columns, so
+ * callbacks can filter on them. Falls back to the source schema when the
+ * target has no registered model.
+ */
+export function getTargetSchema(model: ModelDefinition, relation: TargetRelation): z.ZodTypeAny {
+  return relation.targetSchema ?? getModelRegistry(model).resolveTargetModel(relation.target)?.schema ?? model.schema;
+}
+
+/**
+ * Key column on the parent row that identifies its related rows
+ */
+export function getParentKey(relation: RelationConfig): RelationKey {
+  return relation.type === 'belongsTo' || relation.type === 'morphTo' ? relation.foreignKey : relation.primaryKey;
+}
+
+/**
+ * Whether a relation resolves to at most one row per parent
+ */
+export function isSingleRelation(relation: RelationConfig): boolean {
+  return relation.type === 'belongsTo' || relation.type === 'hasOne' || relation.type === 'morphTo';
+}
+
+/**
+ * Type value a morphMany relation matches in the target's morph type column
+ */
+export function getMorphValue(model: ModelDefinition, relation: MorphManyRelation): string {
+  return relation.morphValue ?? model.name;
+}
+
+/**
+ * Build a `table.column <operator> ?` condition for an explicit table
+ *
+ * Unlike where(), the column isn't checked against a schema whitelist — it is
+ * validated as an identifier and qualified, so it stays unambiguous next to
+ * pivot joins.
+ */
+export function buildColumnCondition(
+  table: string,
+  column: string,
+  operator: string,
+  value: unknown
+): [string, unknown[]] {
+  if (!VALID_OPERATORS_SET.has(operator)) {
+    throw new InvalidOperatorError(operator);
+  }
+  validateIdentifier(column);
+  return OPERATORS[operator as QueryOperator](`${table}.${column}`, value);
+}
+
+/**
+ * Add `column[__operator]` filters qualified with an explicit table
+ */
+function applyColumnFilters(qc: QueryComposer, table: string, filters?: Record<string, unknown>): void {
+  for (const key in filters) {
+    const value = filters[key];
+    if (value === undefined) continue;
+    const [column, operator = 'exact', ...extra] = key.split('__');
+    if (extra.length > 0) {
+      throw new QueryComposerError(`Invalid relation filter '${key}': expected column[__operator]`);
+    }
+    const [condition, values] = buildColumnCondition(table, column, operator, value);
+    qc.whereRaw(condition, values);
+  }
+}
+
+/**
+ * Join a hasManyThrough relation's pivot table to a target query and apply
+ * its `wherePivot` filters
+ */
+export function joinPivot(qc: QueryComposer, relation: HasManyThroughRelation): QueryComposer {
+  qc.join(
+    relation.through,
+    keyEquals(relation.target, relation.throughPrimaryKey, relation.through, relation.throughForeignKey)
+  );
+  applyColumnFilters(qc, relation.through, relation.wherePivot);
+  return qc;
+}
+
+/**
+ * Select a hasManyThrough relation's `withPivot` columns as a `pivot` object
+ *
+ * @example
+ * ```typescript
+ * selectPivot(qc, { ...League.relations.teams, withPivot: ['role'] });
+ * // SELECT teams.*, json_build_object('role', league_teams.role) AS pivot ...
+ * ```
+ */
+export function selectPivot(qc: QueryComposer, relation: HasManyThroughRelation): QueryComposer {
+  const columns = relation.withPivot ?? [];
+  if (columns.length === 0) return qc;
+
+  const allowed = relation.throughSchema ? extractZodColumns(relation.throughSchema) : undefined;
+  const pairs = columns.map((column) => {
+    validateIdentifier(column);
+    if (allowed && !allowed.includes(column)) {
+      throw new InvalidColumnError(column, allowed);
+    }
+    return `'${column}', ${relation.through}.${column}`;
+  });
+  return qc.selectRaw(`json_build_object(${pairs.join(', ')})`, [], 'pivot');
+}
+
+/**
+ * Merge an include's `withPivot`/`wherePivot` into its relation
+ */
+export function withIncludePivot(relation: RelationConfig, include: IncludeOptions): RelationConfig {
+  if (include.withPivot === undefined && include.wherePivot === undefined) return relation;
+  if (relation.type !== 'hasManyThrough') {
+    throw new QueryComposerError(
+      `withPivot/wherePivot on include '${include.relation}' require a hasManyThrough relation`
+    );
+  }
+  return {
+    ...relation,
+    withPivot: [...(relation.withPivot ?? []), ...(include.withPivot ?? [])],
+    wherePivot: { ...relation.wherePivot, ...include.wherePivot },
+  };
+}
+
+/**
+ * Apply a relation's declared `where` filters and scopes to a target query,
+ * after the target model's default scopes (minus the relation's `withoutScopes`)
+ */
+export function applyRelationConstraints(
+  qc: QueryComposer,
+  relation: RelationConfig,
+  table: string,
+  registry: ModelRegistry = getModelRegistry()
+): QueryComposer {
+  const target = registry.resolveTargetModel(table);
+  if (target) qc = applyDefaultScopes(qc, target, table, relation.withoutScopes);
+  applyColumnFilters(qc, table, relation.where);
+
+  const scopes = relation.scope === undefined ? [] : Array.isArray(relation.scope) ? relation.scope : [relation.scope];
+  for (const scope of scopes) {
+    qc = scope.apply(qc);
+  }
+  return qc;
+}
+
+/**
+ * Build the target-side query of a relation, correlated to a parent row.
+ *
+ * Shared by every strategy that embeds the relation in the parent query
+ * (LATERAL joins, JSON subselects, EXISTS filters, ...). hasManyThrough
+ * joins the pivot table and selects only the target's columns. The
+ * relation's `where`/`scope` constraints are applied; its `orderBy` is left
+ * to callers that return rows.
+ *
+ * @param model - Parent model
+ * @param relation - Relation to correlate
+ * @param parentRef - Table name or alias of the parent in the outer query
+ *
+ * @example
+ * ```typescript
+ * buildCorrelatedQuery(League, League.relations.posts).toParam();
+ * // SELECT * FROM posts WHERE posts.league_id = leagues.id
+ * ```
+ */
+export function buildCorrelatedQuery(
+  model: ModelDefinition,
+  relation: RelationConfig,
+  parentRef: string = model.table
+): QueryComposer {
+  assertTargetRelation(relation);
+  const qc = new QueryComposer(getTargetSchema(model, relation), relation.target, { strict: false });
+  if (relation.type === 'hasManyThrough') {
+    qc.select([`${relation.target}.*`]);
+  }
+  return applyRelationConstraints(
+    correlate(qc, model, relation, parentRef),
+    relation,
+    relation.target,
+    getModelRegistry(model)
+  );
+}
+
+/**
+ * Add the pivot join (hasManyThrough) and the condition tying a target query
+ * to its parent row
+ */
+function correlate(
+  qc: QueryComposer,
+  model: ModelDefinition,
+  relation: TargetRelation,
+  parentRef: string
+): QueryComposer {
+  switch (relation.type) {
+    case 'belongsTo':
+      return qc.whereRaw(keyEquals(relation.target, relation.primaryKey, parentRef, relation.foreignKey));
+    case 'hasOne':
+    case 'hasMany':
+      return qc.whereRaw(keyEquals(relation.target, relation.foreignKey, parentRef, relation.primaryKey));
+    case 'hasManyThrough':
+      return joinPivot(qc, relation)
+        .whereRaw(keyEquals(relation.through, relation.foreignKey, parentRef, relation.primaryKey));
+    case 'morphMany':
+      return qc
+        .whereRaw(keyEquals(relation.target, relation.foreignKey, parentRef, relation.primaryKey))
+        .whereRaw(`${relation.target}.${relation.morphType} = ?`, [getMorphValue(model, relation)]);
+  }
+}
+
+/**
+ * Render an aggregate over a relation as a correlated scalar subquery.
+ *
+ * The aggregate column is qualified with the target table; `apply` can
+ * filter the related rows. Relations without rows yield 0 for count and
+ * NULL for the other functions.
+ *
+ * @returns Expression with ? placeholders and its values
+ *
+ * @example
+ * ```typescript
+ * buildRelationAggregate(League, League.relations.posts, { fn: 'sum', column: 'views' });
+ * // (SELECT SUM(posts.views) AS value FROM posts WHERE posts.league_id = leagues.id)
+ * ```
+ */
+export function buildRelationAggregate(
+  model: ModelDefinition,
+  relation: RelationConfig,
+  spec: AggregateSpec,
+  apply?: (qc: QueryComposer) => QueryComposer
+): { expression: string; values: unknown[] } {
+  assertTargetRelation(relation);
+  let related = applyRelationConstraints(
+    correlate(
+      new QueryComposer(getTargetSchema(model, relation), relation.target, { strict: false }),
+      model,
+      relation,
+      model.table
+    ),
+    relation,
+    relation.target,
+    getModelRegistry(model)
+  );
+  if (apply) related = apply(related);
+
+  const column = spec.column && spec.column !== '*' ? `${relation.target}.${spec.column}` : spec.column;
+  const { text, values } = related.aggregate('value', { ...spec, column }).toParam();
+  // Convert $N placeholders back to ? for re-numbering by outer query
+  return { expression: `(${text.replace(/\$\d+/g, '?')})`, values };
+}
+
+/**
+ * Table joined by a relation join
+ */
+export interface RelationJoin {
+  table: string;
+  on: string;
+  alias?: string;
+}
+
+/**
+ * Derive the joins that bring a relation's target into the parent query.
+ * hasManyThrough yields two joins: the pivot table, then the target.
+ *
+ * @param model - Parent model
+ * @param relation - Relation to join
+ * @param alias - Alias for the target table (defaults to the table name)
+ *
+ * @example
+ * ```typescript
+ * buildRelationJoins(League, League.relations.country);
+ * // → [{ table: 'countries', on: 'countries.id = leagues.country_id' }]
+ * ```
+ */
+export function buildRelationJoins(
+  model: ModelDefinition,
+  relation: RelationConfig,
+  alias?: string
+): RelationJoin[] {
+  assertTargetRelation(relation);
+  const ref = alias ?? relation.target;
+  const parent = model.table;
+
+  switch (relation.type) {
+    case 'belongsTo':
+      return [{ table: relation.target, on: keyEquals(ref, relation.primaryKey, parent, relation.foreignKey), alias }];
+    case 'hasOne':
+    case 'hasMany':
+      return [{ table: relation.target, on: keyEquals(ref, relation.foreignKey, parent, relation.primaryKey), alias }];
+    case 'hasManyThrough':
+      return [
+        { table: relation.through, on: keyEquals(relation.through, relation.foreignKey, parent, relation.primaryKey) },
+        {
+          table: relation.target,
+          on: keyEquals(ref, relation.throughPrimaryKey, relation.through, relation.throughForeignKey),
+          alias,
+        },
+      ];
+    case 'morphMany':
+      // join() validates ON as an identifier expression, so the type value can't be bound
+      throw new QueryComposerError(
+        `morphMany relation to '${relation.target}' cannot be joined; filter with whereHas() instead`
+      );
+  }
+}
+
+/**
+ * Render an include as a correlated JSON subselect for the parent's select list.
+ *
+ * belongsTo/hasOne become `row_to_json` of the first matching row (or NULL);
+ * hasMany/hasManyThrough become `COALESCE(json_agg(...), '[]')`. `query`,
+ * `orderBy` and `limit` shape the inner query, and nested includes are
+ * rendered the same way inside it.
+ *
+ * @returns Expression with ? placeholders and its values
+ *
+ * @example
+ * ```typescript
+ * buildJsonSubselect(League, League.relations.posts, { relation: 'posts', limit: 3 });
+ * // (SELECT COALESCE(json_agg(__row), '[]') FROM
+ * //   (SELECT * FROM posts WHERE posts.league_id = leagues.id LIMIT ? OFFSET ?) __row)
+ * ```
+ */
+export function buildJsonSubselect(
+  model: ModelDefinition,
+  relation: RelationConfig,
+  include: IncludeOptions
+): { expression: string; values: unknown[] } {
+  relation = withIncludePivot(relation, include);
+  assertTargetRelation(relation);
+  let related = buildCorrelatedQuery(model, relation);
+  if (relation.type === 'hasManyThrough') selectPivot(related, relation);
+
+  if (include.include && include.include.length > 0) {
+    const targetModel = getModelRegistry(model).resolveTargetModel(relation.target);
+    if (!targetModel) {
+      throw new QueryComposerError(
+        `Cannot load nested includes: no model defined for relation target '${relation.target}'`
+      );
+    }
+    for (const nested of include.include) {
+      const nestedRelation = getRelation(targetModel, nested.relation);
+      if (!nestedRelation) {
+        throw new RelationNotFoundError(nested.relation, targetModel.name);
+      }
+      const { expression, values } = buildJsonSubselect(targetModel, nestedRelation, nested);
+      related.selectRaw(expression, values, nested.alias ?? nested.relation);
+    }
+  }
+
+  const orderBy = include.orderBy ?? relation.orderBy;
+  if (orderBy && orderBy.length > 0) related.orderBy(...orderBy);
+  if (include.query) related = include.query(related);
+
+  const isSingle = isSingleRelation(relation);
+  const limit = isSingle ? 1 : include.limit;
+  if (limit !== undefined) {
+    related.paginate({ limit, maxLimit: limit });
+  }
+
+  const { text, values } = related.toParam();
+  // Convert $N placeholders back to ? for re-numbering by outer query
+  const body = text.replace(/\$\d+/g, '?');
+  const aggregate = isSingle ? 'row_to_json(__row)' : "COALESCE(json_agg(__row), '[]')";
+  return { expression: `(SELECT ${aggregate} FROM (${body}) __row)`, values };
+}
+
+/**
+ * Walk relation names from the start of a path through the model registry.
+ *
+ * Stops at the first segment that isn't a relation of the current model
+ * (usually the column) or when the next target has no registered model.
+ *
+ * @example
+ * ```typescript
+ * resolveRelationPath(League, ['posts', 'author', 'name', 'icontains']);
+ * // → { hops: [League.posts, Post.author], rest: ['name', 'icontains'] }
+ * ```
+ */
+export function resolveRelationPath(
+  model: ModelDefinition,
+  segments: string[]
+): { hops: RelationHop[]; rest: string[] } {
+  const hops: RelationHop[] = [];
+  let current: ModelDefinition | undefined = model;
+  let i = 0;
+
+  while (current && i < segments.length) {
+    const relation = getRelation(current, segments[i]);
+    if (!relation) break;
+    hops.push({ model: current, relation });
+    current = relation.type === 'morphTo' ? undefined : getModelRegistry(current).resolveTargetModel(relation.target);
+    i++;
+  }
+
+  return { hops, rest: segments.slice(i) };
+}
+
+/**
+ * Build the correlated query behind an EXISTS filter over a relation path.
+ * Each further hop is nested as its own EXISTS; `apply` shapes the innermost
+ * query.
+ */
+export function buildRelationExistsQuery(
+  hops: RelationHop[],
+  apply?: (qc: QueryComposer) => QueryComposer
+): QueryComposer {
+  const [first, ...rest] = hops;
+  let qc = buildCorrelatedQuery(first.model, first.relation);
+  if (rest.length > 0) {
+    qc.where(exists(buildRelationExistsQuery(rest, apply)));
+  } else if (apply) {
+    qc = apply(qc);
+  }
+  return qc;
+}
@@ -1,10 +1,13 @@
 import type * as z from 'zod';
-import type { ModelDefinition, RelationConfig } from './types';
+import { QueryComposerError } from '../core/errors';
+import { validateIdentifier } from '../core/identifier-validation';
+import type { ModelConfig, ModelDefinition, ModelRegistry, RelationConfig } from './types';
+import { SOFT_DELETE_SCOPE } from './scopes';
 
 /**
- * Registry of defined models
+ * Registry used by the module-level functions and by models without one
  */
-const modelRegistry = new Map<string, ModelDefinition>();
+const defaultRegistry = createModelRegistry();
 
 // Shared empty array to avoid allocation when model has no relations
 const EMPTY_RELATION_NAMES: string[] = [];
@@ -38,30 +41,15 @@ const EMPTY_RELATION_NAMES: string[] = [];
  *       primaryKey: 'id',
  *     },
  *   },
+ *   softDelete: true,
+ *   defaultScopes: {
+ *     active: scope((q) => q.where({ status: 'active' })),
+ *   },
  * });
  * ```
  */
-export function defineModel<T extends z.ZodTypeAny>(
-  config: {
-    name: string;
-    table: string;
-    schema: T;
-    primaryKey?: string;
-    relations?: Record<string, RelationConfig>;
-  }
-): ModelDefinition<T> {
-  const model: ModelDefinition<T> = {
-    name: config.name,
-    table: config.table,
-    schema: config.schema,
-    primaryKey: config.primaryKey || 'id',
-    relations: config.relations,
-  };
-
-  // Register the model
-  modelRegistry.set(config.name, model);
-
-  return model;
+export function defineModel<T extends z.ZodTypeAny>(config: ModelConfig<T>): ModelDefinition<T> {
+  return defaultRegistry.defineModel(config);
 }
 
 /**
@@ -79,7 +67,17 @@ export function defineModel<T extends z.ZodTypeAny>(
  * ```
  */
 export function getModel(name: string): ModelDefinition | undefined {
-  return modelRegistry.get(name);
+  return defaultRegistry.getModel(name);
+}
+
+/**
+ * Find the registered model for a relation target table
+ *
+ * @param table - Target table name
+ * @returns The model definition or undefined
+ */
+export function resolveTargetModel(table: string): ModelDefinition | undefined {
+  return defaultRegistry.resolveTargetModel(table);
 }
 
 /**
@@ -139,12 +137,111 @@ export function getRelationNames(model: ModelDefinition): string[] {
  * Clear the model registry (useful for testing)
  */
 export function clearModelRegistry(): void {
-  modelRegistry.clear();
+  defaultRegistry.clear();
 }
 
 /**
  * Get all registered models
  */
 export function getAllModels(): ReadonlyMap<string, ModelDefinition> {
-  return modelRegistry;
+  return defaultRegistry.getAllModels();
+}
+
+/**
+ * Get the registry a model's relations resolve in
+ *
+ * @param model - Model definition (omit for the default registry)
+ * @returns The model's registry, or the default registry
+ */
+export function getModelRegistry(model?: ModelDefinition): ModelRegistry {
+  return model?.registry ?? defaultRegistry;
+}
+
+/**
+ * Create a model registry independent of the global one
+ *
+ * Models defined through it resolve relation targets (and morphTo types)
+ * only among its own models, so separate databases or parallel tests can
+ * reuse model and table names without clearing shared state.
+ *
+ * @example
+ * ```typescript
+ * const registry = createModelRegistry();
+ * const League = registry.defineModel({ name: 'League', table: 'leagues', schema: LeagueSchema, relations });
+ * registry.defineModel({ name: 'Post', table: 'posts', schema: PostSchema });
+ *
+ * createModelQuery(League).include('posts'); // posts resolve in `registry`
+ * ```
+ */
+export function createModelRegistry(): ModelRegistry {
+  const models = new Map<string, ModelDefinition>();
+
+  const lookup = (model: ModelDefinition | string): ModelDefinition | undefined =>
+    typeof model === 'string' ? models.get(model) : model;
+
+  const registry: ModelRegistry = {
+    defineModel<T extends z.ZodTypeAny>(config: ModelConfig<T>): ModelDefinition<T> {
+      if (typeof config.softDelete === 'string') {
+        validateIdentifier(config.softDelete);
+      }
+      if (config.defaultScopes && SOFT_DELETE_SCOPE in config.defaultScopes) {
+        throw new QueryComposerError(`Default scope name '${SOFT_DELETE_SCOPE}' is reserved for soft deletes`);
+      }
+
+      const model: ModelDefinition<T> = {
+        name: config.name,
+        table: config.table,
+        schema: config.schema,
+        primaryKey: config.primaryKey || 'id',
+        relations: config.relations,
+        softDelete: config.softDelete,
+        defaultScopes: config.defaultScopes,
+        registry,
+      };
+
+      // Register the model
+      models.set(config.name, model);
+
+      return model;
+    },
+
+    getModel(name) {
+      return models.get(name);
+    },
+
+    resolveTargetModel(table) {
+      for (const model of models.values()) {
+        if (model.table === table) return model;
+      }
+      return undefined;
+    },
+
+    hasRelation(model, relationName) {
+      const resolved = lookup(model);
+      return resolved !== undefined && hasRelation(resolved, relationName);
+    },
+
+    getRelation(model, relationName) {
+      const resolved = lookup(model);
+      return resolved && getRelation(resolved, relationName);
+    },
+
+    getAllModels() {
+      return models;
+    },
+
+    clear() {
+      models.clear();
+    },
+  };
+
+  return registry;
+}
+
+/**
+ * Use a registry for a model's relations, copying the model when it belongs
+ * to a different one
+ */
+export function bindModelRegistry(model: ModelDefinition, registry?: ModelRegistry): ModelDefinition {
+  return registry && registry !== model.registry ? { ...model, registry } : model;
 }
@@ -1,8 +1,35 @@
 import * as z from 'zod';
-import { QueryComposer } from '../core/query-composer';
-import { RelationNotFoundError } from '../core/errors';
-import type { ModelDefinition, IncludeOptions, RelationConfig } from './types';
-import { getRelation, hasRelation } from './define';
+import { DEFAULT_COLUMNS, QueryComposer } from '../core/query-composer';
+import { InvalidColumnError, QueryComposerError, RelationNotFoundError, UnfilteredDeleteError } from '../core/errors';
+import type { AggregateFunction, DeleteOptions, SelectOptions, UpdateOptions } from '../core/types';
+import type { DeleteBuilder, SelectBuilder, UpdateBuilder } from '../core/sql-builder';
+import { extractZodColumns } from '../utils/zod-utils';
+import { exists, notExists } from '../subquery/exists';
+import type {
+  ModelDefinition,
+  ModelRegistry,
+  IncludeOptions,
+  IncludeStrategy,
+  RelationAggregateOptions,
+  RelationConfig,
+  RelationKey,
+} from './types';
+import { bindModelRegistry, getModelRegistry, getRelation, hasRelation } from './define';
+import { SOFT_DELETE_SCOPE, applyDefaultScopes, getDefaultScopeNames, getSoftDeleteColumn } from './scopes';
+import { loadIncludes } from './loader';
+import {
+  applyRelationConstraints,
+  buildColumnCondition,
+  buildJsonSubselect,
+  buildRelationAggregate,
+  buildRelationExistsQuery,
+  buildRelationJoins,
+  assertTargetRelation,
+  resolveRelationPath,
+  withIncludePivot,
+} from './correlation';
+import { resolveExecutor } from '../executor/adapters';
+import type { DatabaseClient } from '../executor/types';
 
 // Shared empty schema — avoids allocating z.object({}) per include query
 const EMPTY_SCHEMA = z.object({});
@@ -14,7 +41,13 @@ interface TrackedInclude {
   relation: string;
   config: RelationConfig;
   query?: (qc: QueryComposer) => QueryComposer;
-  nested?: TrackedInclude[];
+  nested?: IncludeOptions[];
+  alias?: string;
+  limit?: number;
+  orderBy?: string[];
+  strategy?: IncludeStrategy;
+  withPivot?: string[];
+  wherePivot?: Record<string, unknown>;
 }
 
 /**
@@ -24,10 +57,13 @@ interface TrackedInclude {
  * - Eager loading relations with `.include()`
  * - Nested includes
  * - Filtered includes
+ * - Default scopes and soft deletes, applied when SELECT/COUNT/UPDATE/DELETE queries are built
  */
 export class ModelQueryComposer extends QueryComposer {
   private model: ModelDefinition;
   private includes: TrackedInclude[] = [];
+  private disabledScopes: string[] = [];
+  private trashedOnly = false;
 
   constructor(model: ModelDefinition) {
     super(model.schema, model.table, { strict: false });
@@ -37,8 +73,8 @@ export class ModelQueryComposer extends QueryComposer {
   /**
    * Include a relation for eager loading
    *
-   * @param relation - Relation name to include
-   * @param queryCallback - Optional callback to filter/modify the relation query
+   * @param relation - Relation name (or full include options)
+   * @param queryOrOptions - Callback to filter/modify the relation query, or include options
    * @returns this for chaining
    *
    * @example
@@ -51,27 +87,398 @@ export class ModelQueryComposer extends QueryComposer {
    *
    * // Multiple includes
    * query.include('posts').include('country');
+   *
+   * // Nested, aliased, limited per parent
+   * query.include('posts', {
+   *   alias: 'latestPosts',
+   *   orderBy: ['-created_at'],
+   *   limit: 3,
+   *   include: [{ relation: 'author' }],
+   * });
+   *
+   * // Rendered into the parent query as a json_agg subselect
+   * query.include('posts', { strategy: 'json' });
+   *
+   * // Pivot columns of a hasManyThrough relation under `pivot`
+   * query.include('teams', { withPivot: ['role'], wherePivot: { role: 'captain' } });
    * ```
    */
   include(
-    relation: string,
-    queryCallback?: (qc: QueryComposer) => QueryComposer
+    relation: string | IncludeOptions,
+    queryOrOptions?: ((qc: QueryComposer) => QueryComposer) | Omit<IncludeOptions, 'relation'>
   ): this {
-    if (!hasRelation(this.model, relation)) {
-      throw new RelationNotFoundError(relation, this.model.name);
+    const options: IncludeOptions = typeof queryOrOptions === 'function'
+      ? { ...normalizeIncludeOptions(relation), query: queryOrOptions }
+      : { ...normalizeIncludeOptions(relation), ...queryOrOptions };
+
+    if (!hasRelation(this.model, options.relation)) {
+      throw new RelationNotFoundError(options.relation, this.model.name);
     }
 
-    const relationConfig = getRelation(this.model, relation)!;
+    const relationConfig = getRelation(this.model, options.relation)!;
+    // Fail fast on pivot options for relations without a pivot table
+    withIncludePivot(relationConfig, options);
+
+    // JSON includes are rendered into the parent query itself
+    if (options.strategy === 'json') {
+      const { expression, values } = buildJsonSubselect(this.model, relationConfig, options);
+      this.selectRaw(expression, values, options.alias ?? options.relation);
+    }
 
     this.includes.push({
-      relation,
+      relation: options.relation,
       config: relationConfig,
-      query: queryCallback,
+      query: options.query,
+      nested: options.include,
+      alias: options.alias,
+      limit: options.limit,
+      orderBy: options.orderBy,
+      strategy: options.strategy,
+      withPivot: options.withPivot,
+      wherePivot: options.wherePivot,
     });
 
     return this;
   }
 
+  /**
+   * Select the number of related rows as `<relation>_count`
+   *
+   * Rendered as a correlated scalar subquery, so the related rows are never
+   * loaded. pg returns COUNT as a string (bigint).
+   *
+   * @param relation - Relation name
+   * @param queryOrOptions - Callback filtering the related rows, or options with alias
+   *
+   * @example
+   * ```typescript
+   * createModelQuery(League)
+   *   .withCount('posts')
+   *   .withCount('posts', { alias: 'published_count', query: (q) => q.where({ status: 'published' }) });
+   * // SELECT *, (SELECT COUNT(*) AS value FROM posts WHERE posts.league_id = leagues.id) AS posts_count,
+   * //   (SELECT COUNT(*) AS value FROM posts WHERE ... AND status = $1) AS published_count FROM leagues
+   * ```
+   */
+  withCount(
+    relation: string,
+    queryOrOptions?: ((qc: QueryComposer) => QueryComposer) | RelationAggregateOptions
+  ): this {
+    return this.withAggregate(relation, 'count', undefined, queryOrOptions);
+  }
+
+  /**
+   * Select the sum of a related column as `<relation>_sum_<column>`
+   */
+  withSum(
+    relation: string,
+    column: string,
+    queryOrOptions?: ((qc: QueryComposer) => QueryComposer) | RelationAggregateOptions
+  ): this {
+    return this.withAggregate(relation, 'sum', column, queryOrOptions);
+  }
+
+  /**
+   * Select the average of a related column as `<relation>_avg_<column>`
+   */
+  withAvg(
+    relation: string,
+    column: string,
+    queryOrOptions?: ((qc: QueryComposer) => QueryComposer) | RelationAggregateOptions
+  ): this {
+    return this.withAggregate(relation, 'avg', column, queryOrOptions);
+  }
+
+  /**
+   * Select the maximum of a related column as `<relation>_max_<column>`
+   */
+  withMax(
+    relation: string,
+    column: string,
+    queryOrOptions?: ((qc: QueryComposer) => QueryComposer) | RelationAggregateOptions
+  ): this {
+    return this.withAggregate(relation, 'max', column, queryOrOptions);
+  }
+
+  /**
+   * Select the minimum of a related column as `<relation>_min_<column>`
+   */
+  withMin(
+    relation: string,
+    column: string,
+    queryOrOptions?: ((qc: QueryComposer) => QueryComposer) | RelationAggregateOptions
+  ): this {
+    return this.withAggregate(relation, 'min', column, queryOrOptions);
+  }
+
+  private withAggregate(
+    relation: string,
+    fn: AggregateFunction,
+    column: string | undefined,
+    queryOrOptions?: ((qc: QueryComposer) => QueryComposer) | RelationAggregateOptions
+  ): this {
+    const config = getRelation(this.model, relation);
+    if (!config) {
+      throw new RelationNotFoundError(relation, this.model.name);
+    }
+
+    const options: RelationAggregateOptions = typeof queryOrOptions === 'function'
+      ? { query: queryOrOptions }
+      : queryOrOptions ?? {};
+    const { expression, values } = buildRelationAggregate(this.model, config, { fn, column }, options.query);
+    const alias = options.alias ?? (column ? `${relation}_${fn}_${column}` : `${relation}_${fn}`);
+    return this.selectRaw(expression, values, alias);
+  }
+
+  /**
+   * Join a relation's target table using the keys declared in defineModel()
+   *
+   * hasManyThrough also joins the pivot table. The target's columns (from its
+   * registered model or `targetSchema`) become available to where/select/orderBy
+   * prefixed with the alias, or the table name when no alias is given.
+   *
+   * @param relation - Relation name
+   * @param options - Join type (default 'inner') and target alias
+   * @returns this for chaining
+   *
+   * @example
+   * ```typescript
+   * createModelQuery(League)
+   *   .joinRelation('country', { type: 'left', alias: 'c' })
+   *   .select(['leagues.*', 'c.name'])
+   *   .where({ 'c.code__in': ['GB', 'ES'] });
+   * // SELECT leagues.*, c.name FROM leagues LEFT JOIN countries c ON (c.id = leagues.country_id)
+   * // WHERE c.code IN ($1, $2)
+   * ```
+   */
+  joinRelation(
+    relation: string,
+    options: { type?: 'inner' | 'left' | 'right'; alias?: string } = {}
+  ): this {
+    const config = getRelation(this.model, relation);
+    if (!config) {
+      throw new RelationNotFoundError(relation, this.model.name);
+    }
+    assertTargetRelation(config);
+
+    for (const { table, on, alias } of buildRelationJoins(this.model, config, options.alias)) {
+      switch (options.type ?? 'inner') {
+        case 'inner':
+          this.join(table, on, alias);
+          break;
+        case 'left':
+          this.leftJoin(table, on, alias);
+          break;
+        case 'right':
+          this.rightJoin(table, on, alias);
+          break;
+      }
+    }
+
+    const targetSchema = config.targetSchema ?? getModelRegistry(this.model).resolveTargetModel(config.target)?.schema;
+    if (targetSchema) {
+      const prefix = options.alias ?? config.target;
+      this.addJoinedColumns(extractZodColumns(targetSchema).map((column) => `${prefix}.${column}`));
+    }
+
+    return this;
+  }
+
+  /**
+   * Add WHERE conditions, accepting relation paths
+   *
+   * Keys that start with a relation name filter through an EXISTS subquery
+   * built from the relation's keys; to-many relations match when any related
+   * row does. Columns of the model take precedence over relation names.
+   *
+   * @example
+   * ```typescript
+   * createModelQuery(League).where({
+   *   status: 'active',
+   *   country__name__icontains: 'land',
+   *   posts__author__name: 'Ann',
+   * });
+   * // WHERE status = $1
+   * //   AND EXISTS (SELECT 1 FROM countries WHERE countries.id = leagues.country_id AND countries.name ILIKE $2)
+   * //   AND EXISTS (SELECT 1 FROM posts WHERE posts.league_id = leagues.id AND EXISTS (...))
+   * ```
+   */
+  override where(filters: Record<string, unknown>): this {
+    let plain: Record<string, unknown> | null = null;
+
+    for (const key in filters) {
+      const value = filters[key];
+      if (value === undefined) continue;
+
+      const segments = key.split('__');
+      if (segments.length > 1 && this.isRelationSegment(segments[0])) {
+        // Flush pending column filters first so conditions keep their order
+        if (plain) {
+          super.where(plain);
+          plain = null;
+        }
+        this.whereRelationPath(key, segments, value);
+      } else {
+        (plain ??= {})[key] = value;
+      }
+    }
+
+    if (plain) super.where(plain);
+    return this;
+  }
+
+  /**
+   * Keep rows that have at least one related row (optionally matching a callback)
+   *
+   * @param relation - Relation name, or a dotted path like 'posts.author'
+   * @param callback - Filters applied to the (innermost) related query
+   *
+   * @example
+   * ```typescript
+   * createModelQuery(League).whereHas('posts', (q) => q.where({ status: 'active' }));
+   * // WHERE EXISTS (SELECT 1 FROM posts WHERE posts.league_id = leagues.id AND status = $1)
+   * ```
+   */
+  whereHas(relation: string, callback?: (qc: QueryComposer) => QueryComposer): this {
+    return this.where(exists(this.buildExistsQuery(relation, callback)));
+  }
+
+  /**
+   * Keep rows that have no related row (optionally matching a callback)
+   */
+  whereDoesntHave(relation: string, callback?: (qc: QueryComposer) => QueryComposer): this {
+    return this.where(notExists(this.buildExistsQuery(relation, callback)));
+  }
+
+  private isRelationSegment(segment: string): boolean {
+    return hasRelation(this.model, segment) && !extractZodColumns(this.model.schema).includes(segment);
+  }
+
+  private whereRelationPath(key: string, segments: string[], value: unknown): void {
+    const { hops, rest } = resolveRelationPath(this.model, segments);
+    if (rest.length === 0 || rest.length > 2) {
+      throw new QueryComposerError(`Invalid relation filter '${key}': expected relation__column[__operator]`);
+    }
+
+    const [column, operator = 'exact'] = rest;
+    // Qualify the column — hasManyThrough queries also join the pivot table
+    const { model, relation: last } = hops[hops.length - 1];
+    assertTargetRelation(last);
+    // Check the column when the target's schema is known (registered model or targetSchema)
+    const targetSchema = last.targetSchema ?? getModelRegistry(model).resolveTargetModel(last.target)?.schema;
+    const allowed = targetSchema ? extractZodColumns(targetSchema) : [];
+    if (allowed.length > 0 && !allowed.includes(column) && !(DEFAULT_COLUMNS as readonly string[]).includes(column)) {
+      throw new InvalidColumnError(column, [...new Set([...allowed, ...DEFAULT_COLUMNS])]);
+    }
+    const [condition, values] = buildColumnCondition(last.target, column, operator, value);
+    super.where(exists(buildRelationExistsQuery(hops, (qc) => qc.whereRaw(condition, values))));
+  }
+
+  private buildExistsQuery(
+    path: string,
+    callback?: (qc: QueryComposer) => QueryComposer
+  ): QueryComposer {
+    const { hops, rest } = resolveRelationPath(this.model, path.split('.'));
+    if (rest.length > 0) {
+      const last = hops[hops.length - 1]?.relation;
+      if (last) assertTargetRelation(last);
+      const owner = last
+        ? getModelRegistry(this.model).resolveTargetModel(last.target)?.name ?? last.target
+        : this.model.name;
+      throw new RelationNotFoundError(rest[0], owner);
+    }
+    return buildRelationExistsQuery(hops, callback);
+  }
+
+  /**
+   * Include soft-deleted rows
+   *
+   * @example
+   * ```typescript
+   * createModelQuery(Post).withTrashed();
+   * // SELECT * FROM posts
+   * ```
+   */
+  withTrashed(): this {
+    return this.withoutScope(SOFT_DELETE_SCOPE);
+  }
+
+  /**
+   * Keep only soft-deleted rows
+   *
+   * @example
+   * ```typescript
+   * createModelQuery(Post).onlyTrashed();
+   * // SELECT * FROM posts WHERE posts.deleted_at IS NOT NULL
+   * ```
+   */
+  onlyTrashed(): this {
+    this.withoutScope(SOFT_DELETE_SCOPE);
+    this.trashedOnly = true;
+    return this;
+  }
+
+  /**
+   * Skip one of the model's default scopes ('softDelete' for the soft-delete filter)
+   *
+   * @param name - Default scope name
+   * @returns this for chaining
+   */
+  withoutScope(name: string): this {
+    if (!getDefaultScopeNames(this.model).includes(name)) {
+      throw new QueryComposerError(`Model '${this.model.name}' has no default scope '${name}'`);
+    }
+    if (!this.disabledScopes.includes(name)) {
+      this.disabledScopes.push(name);
+    }
+    return this;
+  }
+
+  /**
+   * Build SELECT query with the model's default scopes applied
+   */
+  override toSelect(options: SelectOptions = {}): SelectBuilder {
+    return this.scoped().toSelect(options);
+  }
+
+  /**
+   * Build COUNT query with the model's default scopes applied
+   */
+  override toCount(): SelectBuilder {
+    return this.scoped().toCount();
+  }
+
+  /**
+   * Build UPDATE query limited to the rows the default scopes keep
+   */
+  override toUpdate(values: Record<string, unknown>, options: UpdateOptions = {}): UpdateBuilder {
+    return this.scoped().toUpdate(values, options);
+  }
+
+  /**
+   * Build DELETE query limited to the rows the default scopes keep
+   *
+   * The unfiltered-delete guard only counts the query's own conditions —
+   * scope conditions alone would still delete every live row.
+   */
+  override toDelete(options: DeleteOptions = {}): DeleteBuilder {
+    if (!this.hasFilter() && !options.allowUnfiltered) {
+      throw new UnfilteredDeleteError(this.model.table);
+    }
+    return this.scoped().toDelete(options);
+  }
+
+  /**
+   * Plain copy of this query with default scopes applied, so the scopes
+   * land in the SQL without being stored on the builder
+   */
+  private scoped(): QueryComposer {
+    const qc = applyDefaultScopes(super.clone(), this.model, this.model.table, this.disabledScopes);
+    if (this.trashedOnly) {
+      qc.whereRaw(`${this.model.table}.${getSoftDeleteColumn(this.model)} IS NOT NULL`);
+    }
+    return qc;
+  }
+
   /**
    * Get all tracked includes (returns internal array — treat as readonly)
    */
@@ -96,18 +503,20 @@ export class ModelQueryComposer extends QueryComposer {
     relation: string;
     type: RelationConfig['type'];
     query: { text: string; values: unknown[] };
-    foreignKey: string;
-    primaryKey: string;
+    foreignKey: RelationKey;
+    primaryKey: RelationKey;
   }> {
     return this.includes.map((inc) => {
+      assertTargetRelation(inc.config);
       const baseQuery = new QueryComposer(
         EMPTY_SCHEMA,
         inc.config.target,
         { strict: false }
       );
 
-      // Apply custom query modifications if provided
-      const finalQuery = inc.query ? inc.query(baseQuery) : baseQuery;
+      // Apply relation constraints, then custom query modifications if provided
+      const scoped = applyRelationConstraints(baseQuery, inc.config, inc.config.target, getModelRegistry(this.model));
+      const finalQuery = inc.query ? inc.query(scoped) : scoped;
 
       return {
         relation: inc.relation,
@@ -119,6 +528,43 @@ export class ModelQueryComposer extends QueryComposer {
     });
   }
 
+  /**
+   * Run the query and eager-load all includes
+   *
+   * Executes the parent query, then one batched query per include (and per
+   * nested level), attaching results under the alias or relation name.
+   *
+   * @example
+   * ```typescript
+   * const leagues = await createModelQuery(League)
+   *   .where({ status: 'active' })
+   *   .include('posts', { limit: 5, orderBy: ['-created_at'] })
+   *   .findAll(pool);
+   * // → [{ id: 1, name: '...', posts: [...] }, ...]
+   * ```
+   */
+  async findAll<R = Record<string, unknown>>(db: DatabaseClient): Promise<R[]> {
+    const executor = resolveExecutor(db);
+    const rows = await this.execute(executor);
+    const pending = this.includes.filter((inc) => inc.strategy !== 'json');
+    if (rows.length === 0 || pending.length === 0) {
+      return rows as R[];
+    }
+
+    const includes: IncludeOptions[] = pending.map((inc) => ({
+      relation: inc.relation,
+      query: inc.query,
+      include: inc.nested,
+      alias: inc.alias,
+      limit: inc.limit,
+      orderBy: inc.orderBy,
+      strategy: inc.strategy,
+      withPivot: inc.withPivot,
+      wherePivot: inc.wherePivot,
+    }));
+    return (await loadIncludes(rows, this.model, includes, executor)) as R[];
+  }
+
   /**
    * Clone this query composer
    */
@@ -127,8 +573,10 @@ export class ModelQueryComposer extends QueryComposer {
     // Copy base QueryComposer state
     const baseClone = super.clone();
     Object.assign(cloned, baseClone);
-    // Copy includes
+    // Copy includes and scope state
     cloned.includes = [...this.includes];
+    cloned.disabledScopes = [...this.disabledScopes];
+    cloned.trashedOnly = this.trashedOnly;
     return cloned;
   }
 }
@@ -137,6 +585,7 @@ export class ModelQueryComposer extends QueryComposer {
  * Create a model-aware query composer
  *
  * @param model - Model definition with relations
+ * @param options - Registry to resolve relations in (default: the model's own)
  * @returns ModelQueryComposer instance
  *
  * @example
@@ -156,8 +605,11 @@ export class ModelQueryComposer extends QueryComposer {
  *   .orderBy('-name');
  * ```
  */
-export function createModelQuery(model: ModelDefinition): ModelQueryComposer {
-  return new ModelQueryComposer(model);
+export function createModelQuery(
+  model: ModelDefinition,
+  options: { registry?: ModelRegistry } = {}
+): ModelQueryComposer {
+  return new ModelQueryComposer(bindModelRegistry(model, options.registry));
 }
 
 /**
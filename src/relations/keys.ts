@@ -0,0 +1,70 @@
+import type { QueryComposer } from '../core/query-composer';
+import { QueryComposerError } from '../core/errors';
+import { validateIdentifier } from '../core/identifier-validation';
+import type { RelationKey } from './types';
+
+/**
+ * Columns of a single or composite key
+ */
+export function keyColumns(key: RelationKey): string[] {
+  return typeof key === 'string' ? [key] : key;
+}
+
+/**
+ * Read a key from a row: the raw value for single-column keys, a tuple for
+ * composite keys (null when any part is missing)
+ */
+export function readKey(row: Record<string, unknown>, columns: string[]): unknown {
+  if (columns.length === 1) return row[columns[0]];
+  const tuple = columns.map((column) => row[column]);
+  return tuple.some((value) => value === null || value === undefined) ? null : tuple;
+}
+
+/**
+ * Identity of a key for Map/Set lookups — tuples compare by their JSON form
+ */
+export function keyId(key: unknown): unknown {
+  return Array.isArray(key) ? JSON.stringify(key) : key;
+}
+
+/**
+ * Equality condition between two keys, column by column
+ *
+ * @example
+ * ```typescript
+ * keyEquals('posts', ['tenant_id', 'league_id'], 'leagues', ['tenant_id', 'id']);
+ * // 'posts.tenant_id = leagues.tenant_id AND posts.league_id = leagues.id'
+ * ```
+ */
+export function keyEquals(leftRef: string, left: RelationKey, rightRef: string, right: RelationKey): string {
+  const leftColumns = keyColumns(left);
+  const rightColumns = keyColumns(right);
+  if (leftColumns.length !== rightColumns.length) {
+    throw new QueryComposerError(
+      `Key column count mismatch: (${leftColumns.join(', ')}) vs (${rightColumns.join(', ')})`
+    );
+  }
+  return leftColumns.map((column, i) => `${leftRef}.${column} = ${rightRef}.${rightColumns[i]}`).join(' AND ');
+}
+
+/**
+ * Filter a query to the given keys — `IN` for single-column keys, a row-value
+ * `IN` list for composite keys. Single columns must be whitelisted on `qc`.
+ *
+ * @example
+ * ```typescript
+ * whereKeyIn(qc, ['tenant_id', 'id'], [[1, 10], [1, 11]]);
+ * // WHERE (tenant_id, id) IN (($1, $2), ($3, $4))
+ * ```
+ */
+export function whereKeyIn(qc: QueryComposer, columns: string[], keys: unknown[]): QueryComposer {
+  if (columns.length === 1) {
+    return qc.whereIn(columns[0], keys);
+  }
+  columns.forEach(validateIdentifier);
+  const tuple = `(${columns.map(() => '?').join(', ')})`;
+  return qc.whereRaw(
+    `(${columns.join(', ')}) IN (${keys.map(() => tuple).join(', ')})`,
+    (keys as unknown[][]).flat()
+  );
+}
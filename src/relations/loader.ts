@@ -1,46 +1,74 @@
 import DataLoader from 'dataloader';
 import { QueryComposer } from '../core/query-composer';
+import { QueryComposerError, RelationNotFoundError } from '../core/errors';
 import type {
   ModelDefinition,
+  ModelRegistry,
+  IncludeOptions,
   RelationConfig,
   BelongsToRelation,
   HasOneRelation,
   HasManyRelation,
   HasManyThroughRelation,
+  MorphToRelation,
+  MorphManyRelation,
 } from './types';
-import { getRelation } from './define';
+import { bindModelRegistry, getModelRegistry, getRelation } from './define';
+import {
+  applyRelationConstraints,
+  assertTargetRelation,
+  buildCorrelatedQuery,
+  getMorphValue,
+  getParentKey,
+  getTargetSchema,
+  isSingleRelation,
+  joinPivot,
+  selectPivot,
+  withIncludePivot,
+} from './correlation';
+import type { TargetRelation } from './correlation';
+import { keyColumns, keyId, readKey, whereKeyIn } from './keys';
+import { lateral } from '../subquery/exists';
+import type { QueryExecutor } from '../executor/types';
+
+export type { QueryExecutor };
+
+// Column and alias used by the LATERAL include strategy
+const LATERAL_KEY = '__parent_key';
+const LATERAL_ALIAS = '__related';
 
 /**
- * Query executor function type
+ * Callback that modifies a relation's batch query
  */
-export type QueryExecutor = (
-  query: { text: string; values: unknown[] }
-) => Promise<Record<string, unknown>[]>;
+type RelationQueryCallback = (qc: QueryComposer) => QueryComposer;
 
 /**
  * Batch load configuration
  */
 export interface BatchLoadConfig {
   query: { text: string; values: unknown[] };
-  batchKey: string;
+  batchKey: string | string[];
   isSingle: boolean;
 }
 
 /**
  * Group array items by a key
  *
+ * Composite keys are grouped by the JSON form of their value tuple.
+ *
  * @param items - Array of items to group
- * @param key - Key to group by
+ * @param key - Key column (or columns) to group by
  * @returns Map of key -> items
  */
 export function groupByKey<T extends Record<string, unknown>>(
   items: T[],
-  key: string
+  key: string | string[]
 ): Map<unknown, T[]> {
   const grouped = new Map<unknown, T[]>();
+  const columns = keyColumns(key);
 
   for (const item of items) {
-    const keyValue = item[key];
+    const keyValue = keyId(readKey(item, columns));
     let arr = grouped.get(keyValue);
     if (!arr) {
       arr = [];
@@ -61,6 +89,7 @@ export function groupByKey<T extends Record<string, unknown>>(
  * @param model - Model definition
  * @param relationName - Name of the relation
  * @param executor - Function to execute queries
+ * @param registry - Registry to resolve relations in (default: the model's own)
  * @returns DataLoader instance
  *
  * @example
@@ -72,21 +101,26 @@ export function groupByKey<T extends Record<string, unknown>>(
  * // Will batch multiple loads into single query
  * const posts1 = await postsLoader.load('league-1');
  * const posts2 = await postsLoader.load('league-2');
+ *
+ * // Composite keys load as value tuples
+ * const orders = await ordersLoader.load([tenantId, customerId]);
  * ```
  */
 export function createRelationLoader(
   model: ModelDefinition,
   relationName: string,
-  executor: QueryExecutor
-): DataLoader<string, Record<string, unknown>[]> {
+  executor: QueryExecutor,
+  registry?: ModelRegistry
+): DataLoader<unknown, Record<string, unknown>[], unknown> {
+  model = bindModelRegistry(model, registry);
   const relation = getRelation(model, relationName);
   if (!relation) {
     throw new Error(`Relation '${relationName}' not found on model '${model.name}'`);
   }
 
-  return new DataLoader<string, Record<string, unknown>[]>(
+  return new DataLoader<unknown, Record<string, unknown>[], unknown>(
     async (keys) => {
-      const uniqueKeys = [...new Set(keys)];
+      const uniqueKeys = [...new Map(keys.map((key) => [keyId(key), key])).values()];
       const config = getBatchLoadConfig(model, relation, uniqueKeys);
 
       // Execute the batch query
@@ -96,14 +130,30 @@ export function createRelationLoader(
       const grouped = groupByKey(results, config.batchKey);
 
       // Return results in the same order as keys
-      return keys.map((key) => grouped.get(key) || []);
+      return keys.map((key) => grouped.get(keyId(key)) || []);
     },
     {
       // Cache enabled by default — DataLoader deduplicates within same tick
+      cacheKeyFn: keyId,
     }
   );
 }
 
+/**
+ * Finish a batch query: relation constraints and default order, then the
+ * caller's modifications
+ */
+function buildBatchQuery(
+  qc: QueryComposer,
+  model: ModelDefinition,
+  relation: TargetRelation,
+  query?: RelationQueryCallback
+): { text: string; values: unknown[] } {
+  const scoped = applyRelationConstraints(qc, relation, relation.target, getModelRegistry(model));
+  if (relation.orderBy && relation.orderBy.length > 0) scoped.orderBy(...relation.orderBy);
+  return (query ? query(scoped) : scoped).toParam();
+}
+
 /**
  * Get batch load configuration based on relation type.
  * Accepts pre-resolved relation to avoid redundant lookups.
@@ -111,17 +161,25 @@ export function createRelationLoader(
 function getBatchLoadConfig(
   model: ModelDefinition,
   relation: RelationConfig,
-  keys: string[]
+  keys: unknown[],
+  query?: RelationQueryCallback
 ): BatchLoadConfig {
   switch (relation.type) {
     case 'belongsTo':
-      return batchLoadBelongsToWithRelation(model, relation, keys);
+      return batchLoadBelongsToWithRelation(model, relation, keys, query);
     case 'hasOne':
-      return batchLoadHasOneWithRelation(model, relation, keys);
+      return batchLoadHasOneWithRelation(model, relation, keys, query);
     case 'hasMany':
-      return batchLoadHasManyWithRelation(model, relation, keys);
+      return batchLoadHasManyWithRelation(model, relation, keys, query);
     case 'hasManyThrough':
-      return batchLoadHasManyThroughWithRelation(model, relation, keys);
+      return batchLoadHasManyThroughWithRelation(model, relation, keys, query);
+    case 'morphMany':
+      return batchLoadMorphManyWithRelation(model, relation, keys, query);
+    case 'morphTo':
+      // Keys of different types can't share one query — see loadMorphTo()
+      throw new QueryComposerError(
+        `morphTo relation on '${relation.morphType}' can only be loaded with loadIncludes() or findAll()`
+      );
   }
 }
 
@@ -131,15 +189,17 @@ function getBatchLoadConfig(
 function batchLoadBelongsToWithRelation(
   model: ModelDefinition,
   relation: BelongsToRelation,
-  keys: string[]
+  keys: unknown[],
+  query?: RelationQueryCallback
 ): BatchLoadConfig {
+  const columns = keyColumns(relation.primaryKey);
   const qc = new QueryComposer(
-    model.schema,
+    getTargetSchema(model, relation),
     relation.target,
-    { strict: false, extraColumns: [relation.primaryKey] }
+    { strict: false, extraColumns: columns }
   );
-  qc.whereIn(relation.primaryKey, keys);
-  return { query: qc.toParam(), batchKey: relation.primaryKey, isSingle: true };
+  whereKeyIn(qc, columns, keys);
+  return { query: buildBatchQuery(qc, model, relation, query), batchKey: relation.primaryKey, isSingle: true };
 }
 
 /**
@@ -148,15 +208,17 @@ function batchLoadBelongsToWithRelation(
 function batchLoadHasOneWithRelation(
   model: ModelDefinition,
   relation: HasOneRelation,
-  keys: string[]
+  keys: unknown[],
+  query?: RelationQueryCallback
 ): BatchLoadConfig {
+  const columns = keyColumns(relation.foreignKey);
   const qc = new QueryComposer(
-    model.schema,
+    getTargetSchema(model, relation),
     relation.target,
-    { strict: false, extraColumns: [relation.foreignKey] }
+    { strict: false, extraColumns: columns }
   );
-  qc.whereIn(relation.foreignKey, keys);
-  return { query: qc.toParam(), batchKey: relation.foreignKey, isSingle: true };
+  whereKeyIn(qc, columns, keys);
+  return { query: buildBatchQuery(qc, model, relation, query), batchKey: relation.foreignKey, isSingle: true };
 }
 
 /**
@@ -165,15 +227,17 @@ function batchLoadHasOneWithRelation(
 function batchLoadHasManyWithRelation(
   model: ModelDefinition,
   relation: HasManyRelation,
-  keys: string[]
+  keys: unknown[],
+  query?: RelationQueryCallback
 ): BatchLoadConfig {
+  const columns = keyColumns(relation.foreignKey);
   const qc = new QueryComposer(
-    model.schema,
+    getTargetSchema(model, relation),
     relation.target,
-    { strict: false, extraColumns: [relation.foreignKey] }
+    { strict: false, extraColumns: columns }
   );
-  qc.whereIn(relation.foreignKey, keys);
-  return { query: qc.toParam(), batchKey: relation.foreignKey, isSingle: false };
+  whereKeyIn(qc, columns, keys);
+  return { query: buildBatchQuery(qc, model, relation, query), batchKey: relation.foreignKey, isSingle: false };
 }
 
 /**
@@ -182,19 +246,42 @@ function batchLoadHasManyWithRelation(
 function batchLoadHasManyThroughWithRelation(
   model: ModelDefinition,
   relation: HasManyThroughRelation,
-  keys: string[]
+  keys: unknown[],
+  query?: RelationQueryCallback
 ): BatchLoadConfig {
+  const pivotKeys = keyColumns(relation.foreignKey).map((column) => `${relation.through}.${column}`);
   const qc = new QueryComposer(
-    model.schema,
+    getTargetSchema(model, relation),
     relation.target,
-    { strict: false, extraColumns: [relation.foreignKey, relation.throughForeignKey] }
+    {
+      strict: false,
+      extraColumns: [...keyColumns(relation.foreignKey), ...keyColumns(relation.throughForeignKey), ...pivotKeys],
+    }
   );
-  qc.join(
-    relation.through,
-    `${relation.target}.${relation.throughPrimaryKey} = ${relation.through}.${relation.throughForeignKey}`
+  // Only the target's columns plus the pivot key — pivot columns would shadow them
+  qc.select([`${relation.target}.*`, ...pivotKeys]);
+  selectPivot(joinPivot(qc, relation), relation);
+  whereKeyIn(qc, pivotKeys, keys);
+  return { query: buildBatchQuery(qc, model, relation, query), batchKey: relation.foreignKey, isSingle: false };
+}
+
+/**
+ * Internal: batch load with pre-resolved MorphMany relation
+ */
+function batchLoadMorphManyWithRelation(
+  model: ModelDefinition,
+  relation: MorphManyRelation,
+  keys: unknown[],
+  query?: RelationQueryCallback
+): BatchLoadConfig {
+  const qc = new QueryComposer(
+    getTargetSchema(model, relation),
+    relation.target,
+    { strict: false, extraColumns: [relation.foreignKey, relation.morphType] }
   );
-  qc.whereIn(`${relation.through}.${relation.foreignKey}`, keys);
-  return { query: qc.toParam(), batchKey: relation.foreignKey, isSingle: false };
+  qc.whereIn(relation.foreignKey, keys);
+  qc.where({ [relation.morphType]: getMorphValue(model, relation) });
+  return { query: buildBatchQuery(qc, model, relation, query), batchKey: relation.foreignKey, isSingle: false };
 }
 
 /**
@@ -246,17 +333,19 @@ export function batchLoadHasManyThrough(
  *
  * @param model - Model definition
  * @param executor - Query executor function
+ * @param registry - Registry to resolve relations in (default: the model's own)
  * @returns Map of relation name -> DataLoader
  */
 export function createAllRelationLoaders(
   model: ModelDefinition,
-  executor: QueryExecutor
+  executor: QueryExecutor,
+  registry?: ModelRegistry
 ): Map<string, DataLoader<string, Record<string, unknown>[]>> {
   const loaders = new Map<string, DataLoader<string, Record<string, unknown>[]>>();
 
   if (model.relations) {
     for (const relationName in model.relations) {
-      loaders.set(relationName, createRelationLoader(model, relationName, executor));
+      loaders.set(relationName, createRelationLoader(model, relationName, executor, registry));
     }
   }
 
@@ -270,30 +359,32 @@ export function createAllRelationLoaders(
  * @param model - Parent model definition
  * @param relationName - Relation to load
  * @param executor - Query executor
+ * @param registry - Registry to resolve relations in (default: the model's own)
  * @returns Records with loaded relations
  */
 export async function loadRelation<T extends Record<string, unknown>>(
   records: T[],
   model: ModelDefinition,
   relationName: string,
-  executor: QueryExecutor
+  executor: QueryExecutor,
+  registry?: ModelRegistry
 ): Promise<T[]> {
   const relation = getRelation(model, relationName);
   if (!relation) {
     throw new Error(`Relation '${relationName}' not found`);
   }
 
-  const loader = createRelationLoader(model, relationName, executor);
+  const loader = createRelationLoader(model, relationName, executor, registry);
 
-  // Get the key field based on relation type
-  const keyField = relation.type === 'belongsTo'
+  // Get the key field(s) based on relation type
+  const keyFields = keyColumns(relation.type === 'belongsTo'
     ? (relation as BelongsToRelation).foreignKey
-    : model.primaryKey || 'id';
+    : model.primaryKey || 'id');
 
   // Load relations for all records
   const results = await Promise.all(
     records.map(async (record) => {
-      const key = String(record[keyField]);
+      const key = keyFields.length === 1 ? String(record[keyFields[0]]) : readKey(record, keyFields);
       const related = await loader.load(key);
 
       return {
@@ -307,3 +398,251 @@ export async function loadRelation<T extends Record<string, unknown>>(
 
   return results;
 }
+
+/**
+ * Eager-load includes for a set of records
+ *
+ * Runs one batched query per include (keys deduplicated by value, not by
+ * their string form), attaches results under the alias or relation name and
+ * recurses into nested includes with a single batch per level. `limit` is
+ * applied per parent after loading; `orderBy` and `query` shape the batch.
+ *
+ * @param records - Parent records
+ * @param model - Parent model definition
+ * @param includes - Includes to load
+ * @param executor - Query executor
+ * @param registry - Registry to resolve relations in (default: the model's own)
+ * @returns New records with relations attached
+ *
+ * @example
+ * ```typescript
+ * const leagues = await loadIncludes(rows, League, [
+ *   { relation: 'posts', orderBy: ['-created_at'], limit: 5, include: [{ relation: 'author' }] },
+ * ], executor);
+ * ```
+ */
+export async function loadIncludes<T extends Record<string, unknown>>(
+  records: T[],
+  model: ModelDefinition,
+  includes: IncludeOptions[],
+  executor: QueryExecutor,
+  registry?: ModelRegistry
+): Promise<T[]> {
+  model = bindModelRegistry(model, registry);
+  let result: Record<string, unknown>[] = records;
+
+  for (const include of includes) {
+    let relation = getRelation(model, include.relation);
+    if (!relation) {
+      throw new RelationNotFoundError(include.relation, model.name);
+    }
+    relation = withIncludePivot(relation, include);
+
+    if (relation.type === 'morphTo') {
+      result = await loadMorphTo(result, model, relation, include, executor);
+      continue;
+    }
+
+    const keyFields = keyColumns(getParentKey(relation));
+    const uniqueKeys = new Map<unknown, unknown>();
+    for (const record of result) {
+      const key = readKey(record, keyFields);
+      if (key !== null && key !== undefined) uniqueKeys.set(keyId(key), key);
+    }
+    const keys = [...uniqueKeys.values()];
+
+    let grouped = new Map<unknown, Record<string, unknown>[]>();
+    if (keys.length > 0) {
+      // belongsTo keys are foreign keys on the parent table: driving a lateral
+      // join from them would scan every sibling row, and there is at most one
+      // related row per key anyway, so those load as a batch
+      if (include.strategy === 'lateral' && relation.type !== 'belongsTo') {
+        grouped = await loadLateral(model, relation, include, keys, executor);
+      } else {
+        // An include's orderBy replaces the relation's default order
+        const ordered = include.orderBy ? { ...relation, orderBy: include.orderBy } : relation;
+        const config = getBatchLoadConfig(model, ordered, keys, include.query);
+        grouped = groupByKey(await executor(config.query), config.batchKey);
+      }
+
+      if (include.limit !== undefined) {
+        for (const [key, rows] of grouped) {
+          grouped.set(key, rows.slice(0, include.limit));
+        }
+      }
+
+      if (include.include && include.include.length > 0) {
+        grouped = await loadNestedIncludes(grouped, model, relation, include.include, executor);
+      }
+    }
+
+    const isSingle = isSingleRelation(relation);
+    const name = include.alias ?? include.relation;
+    result = result.map((record) => {
+      const related = grouped.get(keyId(readKey(record, keyFields))) ?? [];
+      return { ...record, [name]: isSingle ? related[0] ?? null : related };
+    });
+  }
+
+  return result as T[];
+}
+
+/**
+ * Load a morphTo include: parent keys are grouped by their stored type and
+ * each type is loaded with one batched query against its registered model
+ */
+async function loadMorphTo(
+  records: Record<string, unknown>[],
+  model: ModelDefinition,
+  relation: MorphToRelation,
+  include: IncludeOptions,
+  executor: QueryExecutor
+): Promise<Record<string, unknown>[]> {
+  if (include.strategy !== undefined && include.strategy !== 'batch') {
+    assertTargetRelation(relation);
+  }
+
+  const keysByType = new Map<string, Set<unknown>>();
+  for (const record of records) {
+    const type = record[relation.morphType];
+    const key = record[relation.foreignKey];
+    if (type === null || type === undefined || key === null || key === undefined) continue;
+    let keys = keysByType.get(String(type));
+    if (!keys) {
+      keys = new Set();
+      keysByType.set(String(type), keys);
+    }
+    keys.add(key);
+  }
+
+  const loaded = new Map<string, Map<unknown, Record<string, unknown>[]>>();
+  for (const [type, keys] of keysByType) {
+    const targetModel = resolveMorphModel(getModelRegistry(model), relation, type);
+    const primaryKey = relation.primaryKey ?? targetModel.primaryKey ?? 'id';
+    if (typeof primaryKey !== 'string') {
+      throw new QueryComposerError(
+        `Cannot load morphTo relation: model '${targetModel.name}' has a composite primary key`
+      );
+    }
+    // Each type is a plain belongsTo against its model
+    const target: BelongsToRelation = {
+      type: 'belongsTo',
+      target: targetModel.table,
+      targetSchema: targetModel.schema,
+      foreignKey: relation.foreignKey,
+      primaryKey,
+      where: relation.where,
+      scope: relation.scope,
+      withoutScopes: relation.withoutScopes,
+    };
+    const config = getBatchLoadConfig(targetModel, target, [...keys], include.query);
+    let grouped = groupByKey(await executor(config.query), config.batchKey);
+    if (include.include && include.include.length > 0) {
+      grouped = await loadNestedIncludes(grouped, targetModel, target, include.include, executor);
+    }
+    loaded.set(type, grouped);
+  }
+
+  const name = include.alias ?? include.relation;
+  return records.map((record) => {
+    const related = loaded.get(String(record[relation.morphType]))?.get(record[relation.foreignKey]);
+    return { ...record, [name]: related?.[0] ?? null };
+  });
+}
+
+/**
+ * Resolve the registered model for a stored morph type value
+ */
+function resolveMorphModel(registry: ModelRegistry, relation: MorphToRelation, type: string): ModelDefinition {
+  const name = relation.morphMap?.[type] ?? type;
+  const model = registry.getModel(name);
+  if (!model) {
+    throw new QueryComposerError(
+      `Cannot load morphTo relation: no model registered for type '${type}' (column '${relation.morphType}')`
+    );
+  }
+  return model;
+}
+
+/**
+ * Load an include through `LEFT JOIN LATERAL`, so `orderBy` and `limit`
+ * apply per parent inside a single query:
+ *
+ *   SELECT parent.key AS __parent_key, __related.* FROM parent
+ *   LEFT JOIN LATERAL (SELECT ... ORDER BY ... LIMIT n) __related ON (TRUE)
+ *   WHERE parent.key IN (...)
+ *
+ * The parent key must identify one parent row (not used for belongsTo).
+ */
+async function loadLateral(
+  model: ModelDefinition,
+  relation: RelationConfig,
+  include: IncludeOptions,
+  keys: unknown[],
+  executor: QueryExecutor
+): Promise<Map<unknown, Record<string, unknown>[]>> {
+  assertTargetRelation(relation);
+  let related = buildCorrelatedQuery(model, relation);
+  if (relation.type === 'hasManyThrough') selectPivot(related, relation);
+  const orderBy = include.orderBy ?? relation.orderBy;
+  if (orderBy && orderBy.length > 0) related.orderBy(...orderBy);
+  if (include.query) related = include.query(related);
+  if (include.limit !== undefined) {
+    related.paginate({ limit: include.limit, maxLimit: include.limit });
+  }
+
+  const parentKeys = keyColumns(getParentKey(relation)).map((column) => `${model.table}.${column}`);
+  const keyAliases = parentKeys.length === 1 ? [LATERAL_KEY] : parentKeys.map((_, i) => `${LATERAL_KEY}_${i}`);
+  const qc = new QueryComposer(model.schema, model.table, { strict: false, extraColumns: parentKeys })
+    .select([...parentKeys.map((key, i) => `${key} AS ${keyAliases[i]}`), `${LATERAL_ALIAS}.*`])
+    .joinLateral(lateral(related, LATERAL_ALIAS));
+  whereKeyIn(qc, parentKeys, keys);
+
+  const grouped = new Map<unknown, Record<string, unknown>[]>();
+  for (const row of await executor(qc.toParam())) {
+    const key = keyId(readKey(row, keyAliases));
+    const rest = { ...row };
+    for (const alias of keyAliases) delete rest[alias];
+    let arr = grouped.get(key);
+    if (!arr) {
+      arr = [];
+      grouped.set(key, arr);
+    }
+    // Parents without matches come back as one all-NULL row
+    if (Object.values(rest).some((value) => value !== null)) {
+      arr.push(rest);
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Load nested includes for every loaded child in one pass, preserving groups
+ */
+async function loadNestedIncludes(
+  grouped: Map<unknown, Record<string, unknown>[]>,
+  model: ModelDefinition,
+  relation: RelationConfig,
+  includes: IncludeOptions[],
+  executor: QueryExecutor
+): Promise<Map<unknown, Record<string, unknown>[]>> {
+  assertTargetRelation(relation);
+  const targetModel = getModelRegistry(model).resolveTargetModel(relation.target);
+  if (!targetModel) {
+    throw new QueryComposerError(
+      `Cannot load nested includes: no model defined for relation target '${relation.target}'`
+    );
+  }
+
+  const groups = [...grouped];
+  const loaded = await loadIncludes(groups.flatMap(([, rows]) => rows), targetModel, includes, executor);
+
+  // loadIncludes keeps order, so slice the flat result back into the groups
+  const regrouped = new Map<unknown, Record<string, unknown>[]>();
+  let offset = 0;
+  for (const [key, rows] of groups) {
+    regrouped.set(key, loaded.slice(offset, offset + rows.length));
+    offset += rows.length;
+  }
+  return regrouped;
+}
@@ -0,0 +1,54 @@
+import type { QueryComposer } from '../core/query-composer';
+import type { ModelDefinition } from './types';
+
+/**
+ * Name of the built-in soft-delete scope, usable with withoutScope()
+ */
+export const SOFT_DELETE_SCOPE = 'softDelete';
+
+/**
+ * Soft-delete column of a model, or undefined when soft deletes are off
+ */
+export function getSoftDeleteColumn(model: ModelDefinition): string | undefined {
+  if (!model.softDelete) return undefined;
+  return model.softDelete === true ? 'deleted_at' : model.softDelete;
+}
+
+/**
+ * Names of a model's default scopes, soft delete included
+ */
+export function getDefaultScopeNames(model: ModelDefinition): string[] {
+  const names = model.defaultScopes ? Object.keys(model.defaultScopes) : [];
+  return getSoftDeleteColumn(model) ? [SOFT_DELETE_SCOPE, ...names] : names;
+}
+
+/**
+ * Apply a model's default scopes to a query on its table
+ *
+ * Soft-deleted rows are filtered first (qualified with `ref`, so joined
+ * queries stay unambiguous), then each named default scope in definition
+ * order. Scopes listed in `without` are skipped.
+ *
+ * @example
+ * ```typescript
+ * applyDefaultScopes(new QueryComposer(PostSchema, 'posts'), Post);
+ * // SELECT * FROM posts WHERE posts.deleted_at IS NULL
+ * ```
+ */
+export function applyDefaultScopes(
+  qc: QueryComposer,
+  model: ModelDefinition,
+  ref: string = model.table,
+  without: readonly string[] = []
+): QueryComposer {
+  const column = getSoftDeleteColumn(model);
+  if (column && !without.includes(SOFT_DELETE_SCOPE)) {
+    qc.whereRaw(`${ref}.${column} IS NULL`);
+  }
+
+  for (const name in model.defaultScopes) {
+    if (without.includes(name)) continue;
+    qc = model.defaultScopes[name].apply(qc);
+  }
+  return qc;
+}
@@ -1,10 +1,22 @@
 import type * as z from 'zod';
 import type { QueryComposer } from '../core/query-composer';
+import type { Scope } from '../composition/scope';
 
 /**
  * Relation type identifiers
  */
-export type RelationType = 'belongsTo' | 'hasOne' | 'hasMany' | 'hasManyThrough';
+export type RelationType =
+  | 'belongsTo'
+  | 'hasOne'
+  | 'hasMany'
+  | 'hasManyThrough'
+  | 'morphTo'
+  | 'morphMany';
+
+/**
+ * Key column, or columns of a composite key (matched by position)
+ */
+export type RelationKey = string | string[];
 
 /**
  * Base relation configuration
@@ -17,9 +29,17 @@ export interface BaseRelation {
   /** Target schema for validation */
   targetSchema?: z.ZodTypeAny;
   /** Primary key on the source table */
-  primaryKey: string;
+  primaryKey: RelationKey;
   /** Alias for the relation (used in SQL and results) */
   alias?: string;
+  /** Filters on the target, in where() syntax — applied wherever the relation is queried */
+  where?: Record<string, unknown>;
+  /** Scope(s) applied to every query for the relation */
+  scope?: Scope<unknown> | Scope<unknown>[];
+  /** Default order of loaded rows ('-column' for DESC); an include's orderBy replaces it */
+  orderBy?: string[];
+  /** Default scopes of the target model to skip ('softDelete' keeps deleted rows) */
+  withoutScopes?: string[];
 }
 
 /**
@@ -42,7 +62,7 @@ export interface BaseRelation {
 export interface BelongsToRelation extends BaseRelation {
   type: 'belongsTo';
   /** Foreign key column on the current model */
-  foreignKey: string;
+  foreignKey: RelationKey;
 }
 
 /**
@@ -65,7 +85,7 @@ export interface BelongsToRelation extends BaseRelation {
 export interface HasOneRelation extends BaseRelation {
   type: 'hasOne';
   /** Foreign key column on the target model */
-  foreignKey: string;
+  foreignKey: RelationKey;
 }
 
 /**
@@ -88,7 +108,7 @@ export interface HasOneRelation extends BaseRelation {
 export interface HasManyRelation extends BaseRelation {
   type: 'hasMany';
   /** Foreign key column on the target model */
-  foreignKey: string;
+  foreignKey: RelationKey;
 }
 
 /**
@@ -117,13 +137,77 @@ export interface HasManyThroughRelation extends BaseRelation {
   /** Pivot/junction table name */
   through: string;
   /** Foreign key on pivot table pointing to current model */
-  foreignKey: string;
+  foreignKey: RelationKey;
   /** Foreign key on pivot table pointing to target model */
-  throughForeignKey: string;
+  throughForeignKey: RelationKey;
   /** Primary key on target model */
-  throughPrimaryKey: string;
+  throughPrimaryKey: RelationKey;
   /** Pivot table schema for validation */
   throughSchema?: z.ZodTypeAny;
+  /** Pivot columns attached to loaded rows under `pivot` */
+  withPivot?: string[];
+  /** Filters on the pivot table, in where() syntax — applied wherever the relation is queried */
+  wherePivot?: Record<string, unknown>;
+}
+
+/**
+ * MorphTo relation (polymorphic N:1)
+ *
+ * The current model stores the target's type and key, so each row can point
+ * to a different model. Type values resolve to registered model names,
+ * optionally through `morphMap`.
+ *
+ * @example
+ * ```typescript
+ * // Comment belongs to a Post or a Video
+ * // comments.commentable_type = 'Post', comments.commentable_id -> posts.id
+ * {
+ *   type: 'morphTo',
+ *   morphType: 'commentable_type',
+ *   foreignKey: 'commentable_id',
+ * }
+ * ```
+ */
+export interface MorphToRelation extends Omit<BaseRelation, 'target' | 'targetSchema' | 'primaryKey'> {
+  type: 'morphTo';
+  /** Column on the current model holding the target type */
+  morphType: string;
+  /** Column on the current model holding the target key */
+  foreignKey: string;
+  /** Key on the target models (default: each model's primaryKey) */
+  primaryKey?: string;
+  /** Stored type value -> model name (default: the value is the model name) */
+  morphMap?: Record<string, string>;
+}
+
+/**
+ * MorphMany relation (polymorphic 1:N)
+ *
+ * Rows in another model reference this model by type and key.
+ *
+ * @example
+ * ```typescript
+ * // Post has many Comments
+ * // comments.commentable_type = 'Post', comments.commentable_id -> posts.id
+ * {
+ *   type: 'morphMany',
+ *   target: 'comments',
+ *   morphType: 'commentable_type',
+ *   foreignKey: 'commentable_id',
+ *   primaryKey: 'id',
+ * }
+ * ```
+ */
+export interface MorphManyRelation extends Omit<BaseRelation, 'primaryKey'> {
+  type: 'morphMany';
+  /** Primary key on the source table */
+  primaryKey: string;
+  /** Column on the target model holding the owner type */
+  morphType: string;
+  /** Column on the target model holding the owner key */
+  foreignKey: string;
+  /** Type value stored for this model (default: the model name) */
+  morphValue?: string;
 }
 
 /**
@@ -133,7 +217,9 @@ export type RelationConfig =
   | BelongsToRelation
   | HasOneRelation
   | HasManyRelation
-  | HasManyThroughRelation;
+  | HasManyThroughRelation
+  | MorphToRelation
+  | MorphManyRelation;
 
 /**
  * Model definition with relations
@@ -145,10 +231,44 @@ export interface ModelDefinition<T extends z.ZodTypeAny = z.ZodTypeAny> {
   table: string;
   /** Zod schema for the model */
   schema: T;
-  /** Primary key column (default: 'id') */
-  primaryKey?: string;
+  /** Primary key column(s) (default: 'id') */
+  primaryKey?: RelationKey;
   /** Relation definitions */
   relations?: Record<string, RelationConfig>;
+  /** Soft-delete column, or true for 'deleted_at' — rows where it is set are filtered out */
+  softDelete?: boolean | string;
+  /** Named scopes applied to every query for the model */
+  defaultScopes?: Record<string, Scope<unknown>>;
+  /** Registry relation targets are resolved in (default: the global registry) */
+  registry?: ModelRegistry;
+}
+
+/**
+ * Configuration accepted by defineModel()
+ */
+export type ModelConfig<T extends z.ZodTypeAny = z.ZodTypeAny> = Omit<ModelDefinition<T>, 'registry'>;
+
+/**
+ * Set of models whose relations resolve against each other
+ *
+ * Created with createModelRegistry(); the module-level defineModel()/getModel()
+ * functions use a default instance.
+ */
+export interface ModelRegistry {
+  /** Define a model in this registry (replacing any model with the same name) */
+  defineModel<T extends z.ZodTypeAny>(config: ModelConfig<T>): ModelDefinition<T>;
+  /** Get a model by name */
+  getModel(name: string): ModelDefinition | undefined;
+  /** Find the model for a relation target table */
+  resolveTargetModel(table: string): ModelDefinition | undefined;
+  /** Check if a model (or model name) has a relation */
+  hasRelation(model: ModelDefinition | string, relationName: string): boolean;
+  /** Get a relation of a model (or model name) */
+  getRelation(model: ModelDefinition | string, relationName: string): RelationConfig | undefined;
+  /** All models, keyed by name */
+  getAllModels(): ReadonlyMap<string, ModelDefinition>;
+  /** Remove all models */
+  clear(): void;
 }
 
 /**
@@ -167,6 +287,33 @@ export interface IncludeOptions {
   limit?: number;
   /** Order by */
   orderBy?: string[];
+  /**
+   * Loading strategy: 'batch' (default) runs `WHERE key IN (...)` and applies
+   * `limit` per parent in memory; 'lateral' uses `LEFT JOIN LATERAL` so
+   * `orderBy` + `limit` select the top N rows per parent in SQL (belongsTo
+   * falls back to 'batch'); 'json' embeds the relation in the parent query
+   * as a JSON subselect
+   */
+  strategy?: IncludeStrategy;
+  /** Pivot columns to attach under `pivot` (hasManyThrough only) */
+  withPivot?: string[];
+  /** Filters on the pivot table, in where() syntax (hasManyThrough only) */
+  wherePivot?: Record<string, unknown>;
+}
+
+/**
+ * Include loading strategy
+ */
+export type IncludeStrategy = 'batch' | 'lateral' | 'json';
+
+/**
+ * Options for relation aggregates (withCount, withSum, ...)
+ */
+export interface RelationAggregateOptions {
+  /** Result column name (default `<relation>_count` / `<relation>_<fn>_<column>`) */
+  alias?: string;
+  /** Filter the related rows */
+  query?: (qc: QueryComposer) => QueryComposer;
 }
 
 /**
@@ -196,3 +343,33 @@ export interface BatchLoadConfig {
   /** Additional query modifications */
   query?: (qc: QueryComposer) => QueryComposer;
 }
+
+/**
+ * Kind of problem found by validateModelRegistry()
+ */
+export type RegistryIssueCode = 'dangling_target' | 'missing_column' | 'key_mismatch' | 'type_mismatch';
+
+/**
+ * One problem in the model registry
+ */
+export interface RegistryIssue {
+  code: RegistryIssueCode;
+  /** Model the problem was found on */
+  model: string;
+  /** Relation the problem was found on (absent for model-level problems) */
+  relation?: string;
+  /** Table and column involved, e.g. 'posts.league_id' */
+  column?: string;
+  message: string;
+}
+
+/**
+ * Result of validateModelRegistry()
+ */
+export interface RegistryReport {
+  /** True when no issues were found */
+  valid: boolean;
+  issues: RegistryIssue[];
+  /** belongsTo chains that lead back to their start, as model names (informational) */
+  cycles: string[][];
+}
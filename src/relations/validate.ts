@@ -0,0 +1,244 @@
+import type * as z from 'zod';
+import { DEFAULT_COLUMNS } from '../core/query-composer';
+import { extractZodColumns, getZodColumnType } from '../utils/zod-utils';
+import type {
+  ModelDefinition,
+  ModelRegistry,
+  RegistryIssue,
+  RegistryReport,
+  RelationConfig,
+  RelationKey,
+} from './types';
+import { getModelRegistry } from './define';
+import { keyColumns } from './keys';
+import { getSoftDeleteColumn } from './scopes';
+
+/**
+ * Table a relation key lives on; columns are only checked when the schema
+ * has a readable object shape
+ */
+interface KeySide {
+  table: string;
+  schema?: z.ZodTypeAny;
+}
+
+/**
+ * Where an issue was found
+ */
+interface IssueContext {
+  issues: RegistryIssue[];
+  model: string;
+  relation?: string;
+}
+
+/**
+ * Check every model in a registry against the models it references
+ *
+ * Reports relation targets and morphMap entries without a registered model,
+ * key columns missing from the schema they belong to, keys whose column
+ * counts differ and key columns whose base types differ. A target that
+ * declares its own `targetSchema` is checked against it and isn't reported
+ * as dangling. `cycles` lists belongsTo chains that lead back to their start;
+ * they are legal (e.g. self-referencing trees) and don't affect `valid`.
+ *
+ * @param source - Registry, or map of models by name, to check (default: the global registry)
+ * @returns Structured report, stable enough to assert on in tests
+ *
+ * @example
+ * ```typescript
+ * const report = validateModelRegistry();
+ * expect(report.issues).toEqual([]);
+ * // or, for a failing registry:
+ * // [{ code: 'missing_column', model: 'League', relation: 'posts', column: 'posts.league_id',
+ * //    message: "Column 'league_id' not found on 'posts'" }]
+ * ```
+ */
+export function validateModelRegistry(
+  source: ModelRegistry | ReadonlyMap<string, ModelDefinition> = getModelRegistry()
+): RegistryReport {
+  const models = 'getAllModels' in source ? source.getAllModels() : source;
+  const issues: RegistryIssue[] = [];
+  const byTable = indexByTable(models);
+
+  for (const model of models.values()) {
+    const softDelete = getSoftDeleteColumn(model);
+    if (softDelete) {
+      checkColumns({ issues, model: model.name }, { table: model.table, schema: model.schema }, [softDelete]);
+    }
+
+    for (const name in model.relations) {
+      validateRelation({ issues, model: model.name, relation: name }, model, model.relations[name], models, byTable);
+    }
+  }
+
+  return { valid: issues.length === 0, issues, cycles: findBelongsToCycles(models, byTable) };
+}
+
+function indexByTable(models: ReadonlyMap<string, ModelDefinition>): Map<string, ModelDefinition> {
+  const byTable = new Map<string, ModelDefinition>();
+  for (const model of models.values()) {
+    if (!byTable.has(model.table)) byTable.set(model.table, model);
+  }
+  return byTable;
+}
+
+function validateRelation(
+  ctx: IssueContext,
+  model: ModelDefinition,
+  relation: RelationConfig,
+  models: ReadonlyMap<string, ModelDefinition>,
+  byTable: Map<string, ModelDefinition>
+): void {
+  const source: KeySide = { table: model.table, schema: model.schema };
+
+  if (relation.type === 'morphTo') {
+    checkColumns(ctx, source, [relation.morphType, relation.foreignKey]);
+    for (const [type, name] of Object.entries(relation.morphMap ?? {})) {
+      const target = models.get(name);
+      if (!target) {
+        ctx.issues.push({
+          code: 'dangling_target',
+          model: ctx.model,
+          relation: ctx.relation,
+          message: `morphMap type '${type}' refers to unregistered model '${name}'`,
+        });
+        continue;
+      }
+      const primaryKey = relation.primaryKey ?? target.primaryKey ?? 'id';
+      checkKeyPair(ctx, source, relation.foreignKey, { table: target.table, schema: target.schema }, primaryKey);
+    }
+    return;
+  }
+
+  const targetModel = byTable.get(relation.target);
+  if (!targetModel && !relation.targetSchema) {
+    ctx.issues.push({
+      code: 'dangling_target',
+      model: ctx.model,
+      relation: ctx.relation,
+      message: `Relation target '${relation.target}' has no registered model`,
+    });
+  }
+  const target: KeySide = { table: relation.target, schema: relation.targetSchema ?? targetModel?.schema };
+
+  switch (relation.type) {
+    case 'belongsTo':
+      checkKeyPair(ctx, source, relation.foreignKey, target, relation.primaryKey);
+      break;
+    case 'hasOne':
+    case 'hasMany':
+      checkKeyPair(ctx, target, relation.foreignKey, source, relation.primaryKey);
+      break;
+    case 'hasManyThrough': {
+      const pivot: KeySide = { table: relation.through, schema: relation.throughSchema };
+      checkKeyPair(ctx, pivot, relation.foreignKey, source, relation.primaryKey);
+      checkKeyPair(ctx, pivot, relation.throughForeignKey, target, relation.throughPrimaryKey);
+      checkColumns(ctx, pivot, relation.withPivot ?? []);
+      break;
+    }
+    case 'morphMany':
+      checkColumns(ctx, target, [relation.morphType]);
+      checkKeyPair(ctx, target, relation.foreignKey, source, relation.primaryKey);
+      break;
+  }
+}
+
+/**
+ * Check that two keys pair up: same column count, columns present on their
+ * side and matching base types
+ */
+function checkKeyPair(
+  ctx: IssueContext,
+  left: KeySide,
+  leftKey: RelationKey,
+  right: KeySide,
+  rightKey: RelationKey
+): void {
+  const leftColumns = keyColumns(leftKey);
+  const rightColumns = keyColumns(rightKey);
+  if (leftColumns.length !== rightColumns.length) {
+    ctx.issues.push({
+      code: 'key_mismatch',
+      model: ctx.model,
+      relation: ctx.relation,
+      message: `Key ${left.table}(${leftColumns.join(', ')}) doesn't match ${right.table}(${rightColumns.join(', ')})`,
+    });
+    return;
+  }
+
+  const leftPresent = checkColumns(ctx, left, leftColumns);
+  const rightPresent = checkColumns(ctx, right, rightColumns);
+  if (!leftPresent || !rightPresent) return;
+
+  leftColumns.forEach((leftColumn, i) => {
+    const leftType = left.schema && getZodColumnType(left.schema, leftColumn);
+    const rightType = right.schema && getZodColumnType(right.schema, rightColumns[i]);
+    if (leftType && rightType && leftType !== rightType) {
+      ctx.issues.push({
+        code: 'type_mismatch',
+        model: ctx.model,
+        relation: ctx.relation,
+        column: `${left.table}.${leftColumn}`,
+        message: `Type of ${left.table}.${leftColumn} (${leftType}) doesn't match ${right.table}.${rightColumns[i]} (${rightType})`,
+      });
+    }
+  });
+}
+
+/**
+ * Report columns missing from a side's schema; returns true when all are present.
+ * DEFAULT_COLUMNS count as present, as the composer always whitelists them.
+ */
+function checkColumns(ctx: IssueContext, side: KeySide, columns: string[]): boolean {
+  const known = side.schema ? extractZodColumns(side.schema) : [];
+  if (known.length === 0) return true;
+
+  let present = true;
+  for (const column of columns) {
+    if (known.includes(column) || (DEFAULT_COLUMNS as readonly string[]).includes(column)) continue;
+    present = false;
+    ctx.issues.push({
+      code: 'missing_column',
+      model: ctx.model,
+      relation: ctx.relation,
+      column: `${side.table}.${column}`,
+      message: `Column '${column}' not found on '${side.table}'`,
+    });
+  }
+  return present;
+}
+
+/**
+ * Elementary cycles in the belongsTo graph, each starting (and ending) at
+ * its earliest registered model so every cycle is reported once
+ */
+function findBelongsToCycles(
+  models: ReadonlyMap<string, ModelDefinition>,
+  byTable: Map<string, ModelDefinition>
+): string[][] {
+  const names = [...models.keys()];
+  const order = new Map(names.map((name, i) => [name, i]));
+  const edges = new Map<string, string[]>();
+  for (const model of models.values()) {
+    const targets = new Set<string>();
+    for (const name in model.relations) {
+      const relation = model.relations[name];
+      const target = relation.type === 'belongsTo' ? byTable.get(relation.target) : undefined;
+      if (target) targets.add(target.name);
+    }
+    edges.set(model.name, [...targets]);
+  }
+
+  const cycles: string[][] = [];
+  const walk = (start: string, path: string[]): void => {
+    for (const next of edges.get(path[path.length - 1]) ?? []) {
+      if (next === start) {
+        cycles.push([...path, start]);
+      } else if (order.get(next)! > order.get(start)! && !path.includes(next)) {
+        walk(start, [...path, next]);
+      }
+    }
+  };
+  for (const name of names) walk(name, [name]);
+  return cycles;
+}
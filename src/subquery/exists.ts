@@ -1,5 +1,6 @@
 import { QueryComposer } from '../core/query-composer';
 import { validateIdentifier } from '../core/identifier-validation';
+import type { LateralSubquery } from '../core/types';
 
 /**
  * Create EXISTS condition for use in where()
@@ -106,11 +107,20 @@ export function raw(expression: string): string {
  * @param subquery - QueryComposer subquery
  * @param alias - Alias for the subquery
  * @returns Lateral subquery configuration with parameterized SQL
+ *
+ * @example
+ * ```typescript
+ * qc.joinLateral(lateral(
+ *   subquery(PostSchema, 'posts').whereRaw('posts.league_id = leagues.id').paginate({ limit: 3 }),
+ *   'recent'
+ * ));
+ * // LEFT JOIN LATERAL (SELECT * FROM posts WHERE ... LIMIT $1 OFFSET $2) recent ON (TRUE)
+ * ```
  */
 export function lateral(
   subquery: QueryComposer,
   alias: string
-): { sql: string; values: unknown[]; alias: string; type: 'lateral' } {
+): LateralSubquery {
   validateIdentifier(alias);
   const { text, values } = subquery.toParam();
   return {
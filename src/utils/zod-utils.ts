@@ -1,4 +1,5 @@
 import * as z from 'zod';
+import type { ResultValidationMode } from '../core/types';
 
 /**
  * WeakMap cache for extractZodColumns results.
@@ -57,3 +58,114 @@ function extractColumnsUncached(schema: z.ZodTypeAny): string[] {
 
   return [];
 }
+
+/**
+ * Base type of a column in an object schema ('number', 'string', 'date', ...),
+ * ignoring optional/nullable/default wrappers. Undefined when the schema has
+ * no such column or its type can't be read.
+ */
+export function getZodColumnType(schema: z.ZodTypeAny, column: string): string | undefined {
+  const object = findZodObject(schema);
+  let field: z.ZodTypeAny | undefined = object?.shape[column];
+  while (
+    field instanceof z.ZodOptional ||
+    field instanceof z.ZodNullable ||
+    field instanceof z.ZodDefault
+  ) {
+    field = field._def.innerType;
+  }
+
+  const typeName: unknown = field?._def?.typeName;
+  return typeof typeName === 'string' ? typeName.replace(/^Zod/, '').toLowerCase() : undefined;
+}
+
+/**
+ * Options for buildResultSchema()
+ */
+export interface ResultSchemaOptions {
+  /** Keep only these shape keys */
+  pick?: string[];
+  /** Drop these shape keys */
+  omit?: string[];
+  /** Extra keys accepted as-is (computed columns, aliases, ...) */
+  extra?: string[];
+  mode?: ResultValidationMode;
+  coerce?: boolean;
+}
+
+/**
+ * Build the schema used to parse result rows.
+ *
+ * Narrows the object shape to the selected columns, applies the unknown-key
+ * mode and optionally coerces driver strings (pg returns numeric/bigint as
+ * strings). Non-object schemas are returned unchanged.
+ */
+export function buildResultSchema(
+  schema: z.ZodTypeAny,
+  options: ResultSchemaOptions = {}
+): z.ZodTypeAny {
+  const object = findZodObject(schema);
+  if (!object) return schema;
+
+  const source = object.shape as Record<string, z.ZodTypeAny>;
+  const omit = new Set(options.omit ?? []);
+  const keys = (options.pick ?? Object.keys(source)).filter((key) => !omit.has(key));
+
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const key of keys) {
+    const field = source[key] ?? z.unknown();
+    shape[key] = options.coerce ? coerceField(field) : field;
+  }
+  for (const key of options.extra ?? []) {
+    if (!(key in shape)) shape[key] = z.unknown();
+  }
+
+  const result = z.object(shape);
+  switch (options.mode) {
+    case 'strict':
+      return result.strict();
+    case 'passthrough':
+      return result.passthrough();
+    default:
+      return result.strip();
+  }
+}
+
+function findZodObject(schema: z.ZodTypeAny): z.AnyZodObject | null {
+  if (schema instanceof z.ZodObject) return schema;
+  if (schema instanceof z.ZodEffects) return findZodObject(schema._def.schema);
+  return null;
+}
+
+/**
+ * Wrap a field so string values from the driver are converted to the
+ * field's base type before validation. The original field keeps its checks.
+ */
+function coerceField(field: z.ZodTypeAny): z.ZodTypeAny {
+  let base = field;
+  while (
+    base instanceof z.ZodOptional ||
+    base instanceof z.ZodNullable ||
+    base instanceof z.ZodDefault
+  ) {
+    base = base._def.innerType;
+  }
+
+  if (base instanceof z.ZodNumber) {
+    return z.preprocess((v) => (typeof v === 'string' && v.trim() !== '' ? Number(v) : v), field);
+  }
+  if (base instanceof z.ZodBigInt) {
+    return z.preprocess((v) => (typeof v === 'string' && /^-?\d+$/.test(v) ? BigInt(v) : v), field);
+  }
+  if (base instanceof z.ZodDate) {
+    return z.preprocess((v) => (typeof v === 'string' || typeof v === 'number' ? new Date(v) : v), field);
+  }
+  if (base instanceof z.ZodBoolean) {
+    return z.preprocess((v) => {
+      if (v === 't' || v === 'true') return true;
+      if (v === 'f' || v === 'false') return false;
+      return v;
+    }, field);
+  }
+  return field;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { buildAggregate, parseAggregateExpression } from '../../src/core/aggregate';
+import { InvalidColumnError, InvalidOperatorError, QueryComposerError } from '../../src/core/errors';
+
+const OrderSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  league_id: z.string(),
+  amount: z.number(),
+  tag: z.string(),
+  paid: z.boolean(),
+});
+
+describe('parseAggregateExpression()', () => {
+  it('parses fn(column) shorthand', () => {
+    expect(parseAggregateExpression('sum(amount)')).toEqual({ fn: 'sum', column: 'amount' });
+    expect(parseAggregateExpression('count(*)')).toEqual({ fn: 'count', column: '*' });
+    expect(parseAggregateExpression('max(orders.amount)')).toEqual({ fn: 'max', column: 'orders.amount' });
+  });
+
+  it('returns null for non-aggregate strings', () => {
+    expect(parseAggregateExpression('amount')).toBeNull();
+    expect(parseAggregateExpression('sum(amount); DROP TABLE x')).toBeNull();
+  });
+
+  it('throws for unknown functions', () => {
+    expect(() => parseAggregateExpression('pg_sleep(amount)')).toThrow(QueryComposerError);
+  });
+});
+
+describe('buildAggregate()', () => {
+  it('renders each aggregate function', () => {
+    expect(buildAggregate({ fn: 'count' })).toEqual(['COUNT(*)', []]);
+    expect(buildAggregate({ fn: 'count_distinct', column: 'user_id' })).toEqual(['COUNT(DISTINCT user_id)', []]);
+    expect(buildAggregate({ fn: 'avg', column: 'amount' })).toEqual(['AVG(amount)', []]);
+    expect(buildAggregate({ fn: 'array_agg', column: 'id' })).toEqual(['ARRAY_AGG(id)', []]);
+    expect(buildAggregate({ fn: 'string_agg', column: 'tag' })).toEqual(['STRING_AGG(tag, ?)', [',']]);
+    expect(buildAggregate({ fn: 'string_agg', column: 'tag', separator: ' | ' })).toEqual(['STRING_AGG(tag, ?)', [' | ']]);
+    expect(buildAggregate({ fn: 'bool_and', column: 'paid' })).toEqual(['BOOL_AND(paid)', []]);
+    expect(buildAggregate({ fn: 'bool_or', column: 'paid' })).toEqual(['BOOL_OR(paid)', []]);
+  });
+
+  it('rejects invalid specs', () => {
+    expect(() => buildAggregate({ fn: 'sum' })).toThrow(QueryComposerError);
+    expect(() => buildAggregate({ fn: 'sum', column: '*' })).toThrow(QueryComposerError);
+  });
+});
+
+describe('QueryComposer.aggregate()', () => {
+  it('selects grouping columns alongside aggregates', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders')
+      .groupBy('league_id')
+      .aggregate('total', 'sum(amount)')
+      .aggregate('buyers', { fn: 'count_distinct', column: 'user_id' });
+    expect(qc.toParam().text).toBe(
+      'SELECT league_id, SUM(amount) AS total, COUNT(DISTINCT user_id) AS buyers FROM orders GROUP BY league_id'
+    );
+  });
+
+  it('selects only aggregates when there is no GROUP BY', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders').aggregate('n', 'count(*)');
+    expect(qc.toParam().text).toBe('SELECT COUNT(*) AS n FROM orders');
+  });
+
+  it('numbers aggregate parameters before WHERE parameters', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders')
+      .where({ paid: true })
+      .groupBy('user_id')
+      .aggregate('tags', { fn: 'string_agg', column: 'tag', separator: ';' });
+    const { text, values } = qc.toParam();
+    expect(text).toBe('SELECT user_id, STRING_AGG(tag, $1) AS tags FROM orders WHERE paid = $2 GROUP BY user_id');
+    expect(values).toEqual([';', true]);
+  });
+
+  it('validates aggregate columns', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders');
+    expect(() => qc.aggregate('x', 'sum(salary)')).toThrow(InvalidColumnError);
+    expect(() => qc.aggregate('x', 'amount')).toThrow(QueryComposerError);
+    expect(() => qc.aggregate('x; --', 'sum(amount)')).toThrow();
+  });
+});
+
+describe('QueryComposer.having() with aggregate filters', () => {
+  it('renders operator objects with $N parameters', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders')
+      .where({ paid: true })
+      .groupBy('user_id')
+      .having({ 'sum(amount)__gte': 100, 'count(*)__gt': 2 });
+    const { text, values } = qc.toParam();
+    expect(text).toBe(
+      'SELECT * FROM orders WHERE paid = $1 GROUP BY user_id HAVING (SUM(amount) >= $2) AND (COUNT(*) > $3)'
+    );
+    expect(values).toEqual([true, 100, 2]);
+  });
+
+  it('does not split aggregate names containing underscores', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders')
+      .groupBy('league_id')
+      .having({ 'count_distinct(user_id)__between': [5, 10] });
+    expect(qc.toParam().text).toContain('HAVING (COUNT(DISTINCT user_id) BETWEEN $1 AND $2)');
+  });
+
+  it('defaults to exact and supports plain grouping columns', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders')
+      .groupBy('league_id')
+      .having({ 'max(amount)': 50, league_id__in: ['l1', 'l2'] });
+    const { text, values } = qc.toParam();
+    expect(text).toContain('HAVING (MAX(amount) = $1) AND (league_id IN ($2, $3))');
+    expect(values).toEqual([50, 'l1', 'l2']);
+  });
+
+  it('orders string_agg separator before the comparison value', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders')
+      .groupBy('user_id')
+      .having({ 'string_agg(tag)__contains': 'vip' });
+    const { text, values } = qc.toParam();
+    expect(text).toContain('HAVING (STRING_AGG(tag, $1) ILIKE $2)');
+    expect(values).toEqual([',', '%vip%']);
+  });
+
+  it('is applied to count queries', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders').groupBy('user_id').having({ 'sum(amount)__gt': 1 });
+    expect(qc.toCountParam().text).toContain('HAVING (SUM(amount) > $1)');
+  });
+
+  it('validates columns and operators', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders');
+    expect(() => qc.having({ 'sum(salary)__gte': 1 })).toThrow(InvalidColumnError);
+    expect(() => qc.having({ 'sum(amount)__near': 1 })).toThrow(InvalidOperatorError);
+    expect(() => qc.having({ 'sum(amount) OR 1=1)__gt': 1 })).toThrow();
+  });
+
+  it('keeps accepting raw condition strings', () => {
+    const qc = new QueryComposer(OrderSchema, 'orders').groupBy('user_id').having('COUNT(*) > ?', [3]);
+    expect(qc.toParam().text).toContain('HAVING (COUNT(*) > $1)');
+  });
+});
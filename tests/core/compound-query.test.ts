@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { CompoundQuery } from '../../src/core/compound-query';
+
+const PostSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  status: z.string(),
+  created_at: z.string(),
+});
+
+const VideoSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  duration: z.number(),
+  created_at: z.string(),
+});
+
+const posts = () =>
+  new QueryComposer(PostSchema, 'posts').select(['id', 'title', 'created_at']).where({ status: 'published' });
+const videos = () =>
+  new QueryComposer(VideoSchema, 'videos').select(['id', 'title', 'created_at']).where({ duration__gt: 60 });
+
+describe('QueryComposer set operations', () => {
+  it('unions two queries and renumbers parameters', () => {
+    const { text, values } = posts().union(videos()).toParam();
+    expect(text).toBe(
+      '(SELECT id, title, created_at FROM posts WHERE status = $1) UNION ' +
+      '(SELECT id, title, created_at FROM videos WHERE duration > $2)'
+    );
+    expect(values).toEqual(['published', 60]);
+  });
+
+  it('supports UNION ALL, INTERSECT and EXCEPT', () => {
+    expect(posts().unionAll(videos()).toParam().text).toContain(') UNION ALL (');
+    expect(posts().intersect(videos()).toParam().text).toContain(') INTERSECT (');
+    expect(posts().except(videos()).toParam().text).toContain(') EXCEPT (');
+  });
+
+  it('chains more than two arms', () => {
+    const articles = new QueryComposer(PostSchema, 'articles').select(['id', 'title', 'created_at']).where({ status: 'live' });
+    const { text, values } = posts().unionAll(videos()).unionAll(articles).toParam();
+    expect(text).toBe(
+      '(SELECT id, title, created_at FROM posts WHERE status = $1) UNION ALL ' +
+      '(SELECT id, title, created_at FROM videos WHERE duration > $2) UNION ALL ' +
+      '(SELECT id, title, created_at FROM articles WHERE status = $3)'
+    );
+    expect(values).toEqual(['published', 60, 'live']);
+  });
+
+  it('groups earlier arms when the operator changes', () => {
+    const articles = new QueryComposer(PostSchema, 'articles').select(['id', 'title', 'created_at']).where({ status: 'live' });
+    const { text, values } = posts().union(videos()).intersect(articles).except(posts()).toParam();
+    expect(text).toBe(
+      '(((SELECT id, title, created_at FROM posts WHERE status = $1) UNION ' +
+      '(SELECT id, title, created_at FROM videos WHERE duration > $2)) INTERSECT ' +
+      '(SELECT id, title, created_at FROM articles WHERE status = $3)) EXCEPT ' +
+      '(SELECT id, title, created_at FROM posts WHERE status = $4)'
+    );
+    expect(values).toEqual(['published', 60, 'live', 'published']);
+  });
+
+  it('applies outer ORDER BY and pagination to the combined result', () => {
+    const { text, values } = posts()
+      .unionAll(videos())
+      .orderBy('-created_at', 'id')
+      .paginate({ page: 3, limit: 10 })
+      .toParam();
+    expect(text).toBe(
+      '(SELECT id, title, created_at FROM posts WHERE status = $1) UNION ALL ' +
+      '(SELECT id, title, created_at FROM videos WHERE duration > $2) ' +
+      'ORDER BY created_at DESC, id ASC LIMIT $3 OFFSET $4'
+    );
+    expect(values).toEqual(['published', 60, 10, 20]);
+  });
+
+  it('keeps per-arm pagination inside parentheses', () => {
+    const { text, values } = posts()
+      .orderBy('-created_at')
+      .paginate({ limit: 5 })
+      .union(videos())
+      .limit(8)
+      .toParam();
+    expect(text).toBe(
+      '(SELECT id, title, created_at FROM posts WHERE status = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3) UNION ' +
+      '(SELECT id, title, created_at FROM videos WHERE duration > $4) LIMIT $5'
+    );
+    expect(values).toEqual(['published', 5, 0, 60, 8]);
+  });
+
+  it('nests compound queries', () => {
+    const inner = posts().union(videos());
+    const { text, values } = new QueryComposer(PostSchema, 'drafts')
+      .select(['id', 'title', 'created_at'])
+      .where({ status: 'hidden' })
+      .except(inner)
+      .toParam();
+    expect(text).toBe(
+      '(SELECT id, title, created_at FROM drafts WHERE status = $1) EXCEPT ' +
+      '((SELECT id, title, created_at FROM posts WHERE status = $2) UNION ' +
+      '(SELECT id, title, created_at FROM videos WHERE duration > $3))'
+    );
+    expect(values).toEqual(['hidden', 'published', 60]);
+  });
+
+  it('snapshots arms when added', () => {
+    const base = posts();
+    const compound = base.union(videos());
+    base.where({ title: 'late' });
+    expect(compound.toParam().values).toEqual(['published', 60]);
+  });
+
+  it('can be used as a CTE body', () => {
+    const feed = posts().unionAll(videos());
+    const { text, values } = new QueryComposer(PostSchema, 'feed', { strict: false })
+      .with('feed', feed)
+      .orderBy('-created_at')
+      .toParam();
+    expect(text).toBe(
+      'WITH feed AS ((SELECT id, title, created_at FROM posts WHERE status = $1) UNION ALL ' +
+      '(SELECT id, title, created_at FROM videos WHERE duration > $2)) SELECT * FROM feed ORDER BY created_at DESC'
+    );
+    expect(values).toEqual(['published', 60]);
+  });
+
+  it('rejects unsafe outer sort columns', () => {
+    expect(() => posts().union(videos()).orderBy("-created_at; DROP TABLE posts")).toThrow();
+  });
+
+  it('returns a CompoundQuery with debug SQL', () => {
+    const compound = posts().union(videos());
+    expect(compound).toBeInstanceOf(CompoundQuery);
+    expect(compound.toSQL()).toContain("status = 'published'");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+
+const UserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.string(),
+});
+
+const OrderSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  amount: z.number(),
+  created_at: z.string(),
+});
+
+describe('QueryComposer.with()', () => {
+  it('prepends a CTE and numbers its parameters first', () => {
+    const recent = new QueryComposer(OrderSchema, 'orders')
+      .select(['user_id'])
+      .where({ created_at__gte: '2024-01-01' });
+
+    const qc = new QueryComposer(UserSchema, 'users')
+      .with('recent_orders', recent)
+      .join('recent_orders', 'recent_orders.user_id = users.id')
+      .where({ status: 'active' });
+
+    const { text, values } = qc.toParam();
+    expect(text).toBe(
+      'WITH recent_orders AS (SELECT user_id FROM orders WHERE created_at >= $1) ' +
+      'SELECT * FROM users INNER JOIN recent_orders ON (recent_orders.user_id = users.id) WHERE status = $2'
+    );
+    expect(values).toEqual(['2024-01-01', 'active']);
+  });
+
+  it('supports selecting from the CTE name', () => {
+    const big = new QueryComposer(OrderSchema, 'orders').where({ amount__gt: 100 });
+    const qc = new QueryComposer(OrderSchema, 'big_orders')
+      .with('big_orders', big)
+      .where({ user_id: 'u1' })
+      .paginate({ page: 1, limit: 5 });
+    const { text, values } = qc.toParam();
+    expect(text).toBe(
+      'WITH big_orders AS (SELECT * FROM orders WHERE amount > $1) ' +
+      'SELECT * FROM big_orders WHERE user_id = $2 LIMIT $3 OFFSET $4'
+    );
+    expect(values).toEqual([100, 'u1', 5, 0]);
+  });
+
+  it('renders multiple CTEs and materialization hints', () => {
+    const a = new QueryComposer(OrderSchema, 'orders').where({ amount__gt: 1 });
+    const b = new QueryComposer(OrderSchema, 'orders').where({ amount__lt: 2 });
+    const qc = new QueryComposer(OrderSchema, 'a')
+      .with('a', a, { materialized: true })
+      .with('b', b, { materialized: false });
+    const { text, values } = qc.toParam();
+    expect(text).toBe(
+      'WITH a AS MATERIALIZED (SELECT * FROM orders WHERE amount > $1), ' +
+      'b AS NOT MATERIALIZED (SELECT * FROM orders WHERE amount < $2) SELECT * FROM a'
+    );
+    expect(values).toEqual([1, 2]);
+  });
+
+  it('renumbers CTE limit/offset parameters', () => {
+    const top = new QueryComposer(OrderSchema, 'orders').orderBy('-amount').paginate({ limit: 10 });
+    const qc = new QueryComposer(OrderSchema, 'top').with('top', top).where({ user_id: 'u1' });
+    const { text, values } = qc.toParam();
+    expect(text).toBe(
+      'WITH top AS (SELECT * FROM orders ORDER BY amount DESC LIMIT $1 OFFSET $2) SELECT * FROM top WHERE user_id = $3'
+    );
+    expect(values).toEqual([10, 0, 'u1']);
+  });
+
+  it('is included in count queries and clones', () => {
+    const big = new QueryComposer(OrderSchema, 'orders').where({ amount__gt: 100 });
+    const qc = new QueryComposer(OrderSchema, 'big_orders').with('big_orders', big);
+    expect(qc.toCountParam().text).toBe(
+      'WITH big_orders AS (SELECT * FROM orders WHERE amount > $1) SELECT COUNT(*) AS total FROM big_orders'
+    );
+    expect(qc.clone().toParam().text).toContain('WITH big_orders AS');
+  });
+
+  it('prepends CTEs to UPDATE and DELETE queries', () => {
+    const recent = new QueryComposer(OrderSchema, 'orders')
+      .select(['user_id'])
+      .where({ created_at__gte: '2024-01-01' });
+    const qc = new QueryComposer(UserSchema, 'users')
+      .with('recent_orders', recent)
+      .join('recent_orders', 'recent_orders.user_id = users.id')
+      .where({ status: 'active' });
+
+    expect(qc.toUpdate({ status: 'vip' }).toParam()).toEqual({
+      text:
+        'WITH recent_orders AS (SELECT user_id FROM orders WHERE created_at >= $1) ' +
+        'UPDATE users SET status = $2 FROM recent_orders WHERE recent_orders.user_id = users.id AND status = $3',
+      values: ['2024-01-01', 'vip', 'active'],
+    });
+    expect(qc.toDelete().toParam()).toEqual({
+      text:
+        'WITH recent_orders AS (SELECT user_id FROM orders WHERE created_at >= $1) ' +
+        'DELETE FROM users USING recent_orders WHERE recent_orders.user_id = users.id AND status = $2',
+      values: ['2024-01-01', 'active'],
+    });
+  });
+
+  it('rejects unsafe CTE names', () => {
+    const sub = new QueryComposer(OrderSchema, 'orders');
+    expect(() => new QueryComposer(OrderSchema, 'x').with("x'; DROP TABLE orders; --", sub)).toThrow();
+  });
+});
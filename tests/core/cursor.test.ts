@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { buildKeysetCondition, decodeCursor, encodeCursor } from '../../src/core/cursor';
+import { InvalidColumnError, InvalidCursorError, QueryComposerError } from '../../src/core/errors';
+
+const PostSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  score: z.number(),
+  status: z.string(),
+  created_at: z.string(),
+});
+
+describe('encodeCursor() / decodeCursor()', () => {
+  it('round-trips values through an opaque string', () => {
+    const cursor = encodeCursor(['2024-05-01T10:00:00.000Z', 42]);
+    expect(cursor).not.toContain('2024');
+    expect(decodeCursor(cursor)).toEqual(['2024-05-01T10:00:00.000Z', 42]);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => decodeCursor('%%%')).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(Buffer.from('{"a":1}').toString('base64url'))).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(encodeCursor([]))).toThrow(InvalidCursorError);
+  });
+});
+
+describe('buildKeysetCondition()', () => {
+  it('uses a row-value comparison for uniform directions', () => {
+    expect(buildKeysetCondition(
+      [{ column: 'created_at', direction: 'DESC' }, { column: 'id', direction: 'DESC' }],
+      ['t', 1],
+      false
+    )).toEqual(['(created_at, id) < (?, ?)', ['t', 1]]);
+  });
+
+  it('uses a plain comparison for a single column', () => {
+    expect(buildKeysetCondition([{ column: 'id', direction: 'ASC' }], [5], false)).toEqual(['id > ?', [5]]);
+    expect(buildKeysetCondition([{ column: 'id', direction: 'ASC' }], [5], true)).toEqual(['id < ?', [5]]);
+  });
+
+  it('expands mixed directions into OR terms', () => {
+    expect(buildKeysetCondition(
+      [{ column: 'score', direction: 'DESC' }, { column: 'title', direction: 'ASC' }, { column: 'id', direction: 'ASC' }],
+      [10, 'b', 3],
+      false
+    )).toEqual([
+      '(score < ? OR (score = ? AND title > ?) OR (score = ? AND title = ? AND id > ?))',
+      [10, 10, 'b', 10, 'b', 3],
+    ]);
+  });
+
+  it('throws when the cursor does not match the sort list', () => {
+    expect(() => buildKeysetCondition([{ column: 'id', direction: 'ASC' }], [1, 2], false))
+      .toThrow(InvalidCursorError);
+  });
+});
+
+describe('QueryComposer.cursorPaginate()', () => {
+  it('fetches the first page with a look-ahead row and tie-breaker sort', () => {
+    const qc = new QueryComposer(PostSchema, 'posts')
+      .where({ status: 'published' })
+      .orderBy('-created_at')
+      .cursorPaginate({ limit: 2 });
+    const { text, values } = qc.toParam();
+    expect(text).toBe('SELECT * FROM posts WHERE status = $1 ORDER BY created_at DESC, id DESC LIMIT $2');
+    expect(values).toEqual(['published', 3]);
+  });
+
+  it('adds a row-value predicate for the after cursor', () => {
+    const after = encodeCursor(['2024-05-01', 7]);
+    const qc = new QueryComposer(PostSchema, 'posts')
+      .where({ status: 'published' })
+      .orderBy('-created_at', '-id')
+      .cursorPaginate({ limit: 10, after });
+    const { text, values } = qc.toParam();
+    expect(text).toBe(
+      'SELECT * FROM posts WHERE status = $1 AND (created_at, id) < ($2, $3) ORDER BY created_at DESC, id DESC LIMIT $4'
+    );
+    expect(values).toEqual(['published', '2024-05-01', 7, 11]);
+  });
+
+  it('flips comparisons and sort for the before cursor', () => {
+    const before = encodeCursor([50, 7]);
+    const qc = new QueryComposer(PostSchema, 'posts').orderBy('-score').cursorPaginate({ limit: 5, before, tieBreaker: 'id' });
+    const { text, values } = qc.toParam();
+    expect(text).toBe('SELECT * FROM posts WHERE (score, id) > ($1, $2) ORDER BY score ASC, id ASC LIMIT $3');
+    expect(values).toEqual([50, 7, 6]);
+  });
+
+  it('expands mixed directions', () => {
+    const after = encodeCursor([50, 7]);
+    const qc = new QueryComposer(PostSchema, 'posts').orderBy('-score', 'id').cursorPaginate({ after });
+    expect(qc.toParam().text).toContain('WHERE (score < $1 OR (score = $2 AND id > $3)) ORDER BY score DESC, id ASC');
+  });
+
+  it('replaces offset pagination and vice versa', () => {
+    const qc = new QueryComposer(PostSchema, 'posts').paginate({ page: 3 }).cursorPaginate({ limit: 5 });
+    expect(qc.toParam().text).not.toContain('OFFSET');
+    qc.paginate({ page: 2, limit: 5 });
+    expect(qc.toParam().text).toContain('OFFSET');
+  });
+
+  it('does not affect count queries', () => {
+    const qc = new QueryComposer(PostSchema, 'posts').orderBy('id').cursorPaginate({ after: encodeCursor([1]) });
+    expect(qc.toCountParam().text).toBe('SELECT COUNT(*) AS total FROM posts');
+  });
+
+  it('validates inputs', () => {
+    const qc = new QueryComposer(PostSchema, 'posts');
+    expect(() => qc.cursorPaginate({ after: 'x', before: 'y' })).toThrow(QueryComposerError);
+    expect(() => qc.cursorPaginate({ after: 'not-a-cursor' })).toThrow(InvalidCursorError);
+    expect(() => qc.cursorPaginate({ tieBreaker: 'uuid' })).toThrow(InvalidColumnError);
+    qc.orderBy('-created_at').cursorPaginate({ after: encodeCursor(['only-one']) });
+    expect(() => qc.toParam()).toThrow(InvalidCursorError);
+  });
+});
+
+describe('QueryComposer.getCursorPage()', () => {
+  const rows = [
+    { id: 5, created_at: 'e' },
+    { id: 4, created_at: 'd' },
+    { id: 3, created_at: 'c' },
+  ];
+
+  it('trims the look-ahead row and builds forward metadata', () => {
+    const qc = new QueryComposer(PostSchema, 'posts').orderBy('-created_at').cursorPaginate({ limit: 2 });
+    const { rows: page, meta } = qc.getCursorPage(rows);
+    expect(page.map((r) => r.id)).toEqual([5, 4]);
+    expect(meta).toEqual({
+      limit: 2,
+      hasNext: true,
+      hasPrev: false,
+      nextCursor: encodeCursor(['d', 4]),
+      prevCursor: null,
+    });
+  });
+
+  it('reports the last page', () => {
+    const qc = new QueryComposer(PostSchema, 'posts')
+      .orderBy('-created_at')
+      .cursorPaginate({ limit: 5, after: encodeCursor(['f', 6]) });
+    const { meta } = qc.getCursorPage(rows);
+    expect(meta.hasNext).toBe(false);
+    expect(meta.nextCursor).toBeNull();
+    expect(meta.hasPrev).toBe(true);
+    expect(meta.prevCursor).toBe(encodeCursor(['e', 5]));
+  });
+
+  it('restores display order for backward pages', () => {
+    const qc = new QueryComposer(PostSchema, 'posts')
+      .orderBy('-created_at')
+      .cursorPaginate({ limit: 2, before: encodeCursor(['b', 2]) });
+    // Backward query returns ascending rows
+    const { rows: page, meta } = qc.getCursorPage([
+      { id: 3, created_at: 'c' },
+      { id: 4, created_at: 'd' },
+      { id: 5, created_at: 'e' },
+    ]);
+    expect(page.map((r) => r.id)).toEqual([4, 3]);
+    expect(meta.hasPrev).toBe(true);
+    expect(meta.hasNext).toBe(true);
+    expect(meta.prevCursor).toBe(encodeCursor(['d', 4]));
+    expect(meta.nextCursor).toBe(encodeCursor(['c', 3]));
+  });
+
+  it('reads qualified sort columns by bare name', () => {
+    const qc = new QueryComposer(PostSchema, 'posts', { strict: false })
+      .orderBy('posts.created_at')
+      .cursorPaginate({ limit: 1, tieBreaker: 'posts.id' });
+    const { meta } = qc.getCursorPage(rows);
+    expect(meta.nextCursor).toBe(encodeCursor(['e', 5]));
+  });
+
+  it('rejects rows without a sort column', () => {
+    const qc = new QueryComposer(PostSchema, 'posts').orderBy('-created_at').cursorPaginate({ limit: 1 });
+    expect(() => qc.getCursorPage([{ id: 5 }, { id: 4 }])).toThrow(
+      "Invalid cursor: row is missing sort column 'created_at'"
+    );
+    expect(() => qc.getCursorPage([{ id: 5 }, { id: 4 }])).toThrow(InvalidCursorError);
+  });
+
+  it('requires cursorPaginate()', () => {
+    const qc = new QueryComposer(PostSchema, 'posts');
+    expect(() => qc.getCursorPage([])).toThrow(QueryComposerError);
+  });
+});
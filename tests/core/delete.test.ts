@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { QueryComposerError, UnfilteredDeleteError } from '../../src/core/errors';
+
+const CommentSchema = z.object({
+  id: z.string(),
+  post_id: z.string(),
+  status: z.string(),
+  body: z.string(),
+});
+
+describe('QueryComposer.toDelete()', () => {
+  it('builds DELETE with composed conditions', () => {
+    const qc = new QueryComposer(CommentSchema, 'comments')
+      .where({ status: 'spam' })
+      .or([{ body__contains: 'casino' }, { body__contains: 'lottery' }]);
+    const { text, values } = qc.toDelete().toParam();
+    expect(text).toBe('DELETE FROM comments WHERE status = $1 AND (body ILIKE $2 OR body ILIKE $3)');
+    expect(values).toEqual(['spam', '%casino%', '%lottery%']);
+  });
+
+  it('counts not() conditions as a filter', () => {
+    const qc = new QueryComposer(CommentSchema, 'comments').not({ status: 'approved' });
+    expect(qc.toDelete().toParam().text).toBe('DELETE FROM comments WHERE status != $1');
+  });
+
+  it('adds RETURNING list', () => {
+    const qc = new QueryComposer(CommentSchema, 'comments').where({ id: 'c1' });
+    const { text } = qc.toDelete({ returning: ['id', 'post_id'] }).toParam();
+    expect(text).toBe('DELETE FROM comments WHERE id = $1 RETURNING id, post_id');
+  });
+
+  it('renders inner joins as DELETE ... USING', () => {
+    const qc = new QueryComposer(CommentSchema, 'comments', { strict: false })
+      .join('posts', 'comments.post_id = posts.id')
+      .whereRaw('posts.status = ?', ['deleted']);
+    const { text, values } = qc.toDelete().toParam();
+    expect(text).toBe(
+      'DELETE FROM comments USING posts WHERE comments.post_id = posts.id AND posts.status = $1'
+    );
+    expect(values).toEqual(['deleted']);
+  });
+
+  it('rejects non-inner joins', () => {
+    const qc = new QueryComposer(CommentSchema, 'comments')
+      .leftJoin('posts', 'comments.post_id = posts.id')
+      .where({ status: 'spam' });
+    expect(() => qc.toDelete()).toThrow(QueryComposerError);
+  });
+
+  describe('unfiltered delete guard', () => {
+    it('throws UnfilteredDeleteError without conditions', () => {
+      const qc = new QueryComposer(CommentSchema, 'comments');
+      expect(() => qc.toDelete()).toThrow(UnfilteredDeleteError);
+    });
+
+    it('does not treat joins alone as a filter', () => {
+      const qc = new QueryComposer(CommentSchema, 'comments').join('posts', 'comments.post_id = posts.id');
+      expect(() => qc.toDelete()).toThrow(UnfilteredDeleteError);
+    });
+
+    it('allows unfiltered delete when explicitly overridden', () => {
+      const qc = new QueryComposer(CommentSchema, 'comments');
+      const { text, values } = qc.toDelete({ allowUnfiltered: true }).toParam();
+      expect(text).toBe('DELETE FROM comments');
+      expect(values).toEqual([]);
+    });
+  });
+});
@@ -5,6 +5,10 @@ import {
   RelationNotFoundError,
   SubqueryError,
   TypeMismatchError,
+  UnfilteredDeleteError,
+  InvalidCursorError,
+  ResultValidationError,
+  QueryComposerError,
 } from '../../src/core/errors';
 
 describe('Error Classes', () => {
@@ -62,4 +66,41 @@ describe('Error Classes', () => {
       expect(error.name).toBe('TypeMismatchError');
     });
   });
+
+  describe('UnfilteredDeleteError', () => {
+    it('includes table name and override hint', () => {
+      const error = new UnfilteredDeleteError('users');
+      expect(error.message).toContain('users');
+      expect(error.message).toContain('allowUnfiltered');
+      expect(error.name).toBe('UnfilteredDeleteError');
+      expect(error).toBeInstanceOf(QueryComposerError);
+    });
+  });
+
+  describe('InvalidCursorError', () => {
+    it('includes the reason in message', () => {
+      const error = new InvalidCursorError('malformed payload');
+      expect(error.message).toContain('malformed payload');
+      expect(error.name).toBe('InvalidCursorError');
+      expect(error).toBeInstanceOf(QueryComposerError);
+    });
+  });
+
+  describe('ResultValidationError', () => {
+    it('summarizes issues and keeps them all', () => {
+      const issues = [
+        { row: 0, path: ['id'], message: 'Expected number, received string' },
+        { row: 2, path: ['name'], message: 'Required' },
+        { row: 2, path: ['age'], message: 'Required' },
+        { row: 5, path: [], message: 'Expected object, received null' },
+      ];
+      const error = new ResultValidationError(issues);
+      expect(error.message).toContain('3 row(s)');
+      expect(error.message).toContain("row 0 'id'");
+      expect(error.message).toContain('+1 more');
+      expect(error.issues).toBe(issues);
+      expect(error.name).toBe('ResultValidationError');
+      expect(error).toBeInstanceOf(QueryComposerError);
+    });
+  });
 });
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { InsertValidationError, InvalidColumnError, QueryComposerError } from '../../src/core/errors';
+
+const UserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.string(),
+  age: z.number(),
+  nickname: z.string().nullable(),
+});
+
+describe('QueryComposer.toInsert()', () => {
+  it('builds single-row INSERT with $N parameters', () => {
+    const qc = new QueryComposer(UserSchema, 'users');
+    const { text, values } = qc.toInsert({ name: 'John', age: 30 }).toParam();
+    expect(text).toBe('INSERT INTO users (name, age) VALUES ($1, $2)');
+    expect(values).toEqual(['John', 30]);
+  });
+
+  it('builds multi-row INSERT', () => {
+    const qc = new QueryComposer(UserSchema, 'users');
+    const { text, values } = qc
+      .toInsert([{ name: 'A', age: 1 }, { name: 'B', age: 2 }])
+      .toParam();
+    expect(text).toBe('INSERT INTO users (name, age) VALUES ($1, $2), ($3, $4)');
+    expect(values).toEqual(['A', 1, 'B', 2]);
+  });
+
+  it('uses DEFAULT for columns missing from a row', () => {
+    const qc = new QueryComposer(UserSchema, 'users');
+    const { text, values } = qc
+      .toInsert([{ name: 'A' }, { name: 'B', status: 'active' }])
+      .toParam();
+    expect(text).toBe('INSERT INTO users (name, status) VALUES ($1, DEFAULT), ($2, $3)');
+    expect(values).toEqual(['A', 'B', 'active']);
+  });
+
+  it('keeps null values as parameters', () => {
+    const qc = new QueryComposer(UserSchema, 'users');
+    const { text, values } = qc.toInsert({ name: 'A', nickname: null }).toParam();
+    expect(text).toBe('INSERT INTO users (name, nickname) VALUES ($1, $2)');
+    expect(values).toEqual(['A', null]);
+  });
+
+  it('adds RETURNING list', () => {
+    const qc = new QueryComposer(UserSchema, 'users');
+    const { text } = qc.toInsert({ name: 'A' }, { returning: ['id', 'name'] }).toParam();
+    expect(text).toBe('INSERT INTO users (name) VALUES ($1) RETURNING id, name');
+  });
+
+  it('allows RETURNING *', () => {
+    const qc = new QueryComposer(UserSchema, 'users');
+    const { text } = qc.toInsert({ name: 'A' }, { returning: ['*'] }).toParam();
+    expect(text).toContain('RETURNING *');
+  });
+
+  it('throws InvalidColumnError for unknown columns in strict mode', () => {
+    const qc = new QueryComposer(UserSchema, 'users');
+    expect(() => qc.toInsert({ name: 'A', 'name; DROP TABLE users': 'x' })).toThrow(InvalidColumnError);
+    expect(() => qc.toInsert({ name: 'A' }, { returning: ['password'] })).toThrow(InvalidColumnError);
+  });
+
+  it('drops unknown columns in non-strict mode', () => {
+    const qc = new QueryComposer(UserSchema, 'users', { strict: false });
+    const { text, values } = qc.toInsert({ name: 'A', unknown: 'x' }).toParam();
+    expect(text).toBe('INSERT INTO users (name) VALUES ($1)');
+    expect(values).toEqual(['A']);
+  });
+
+  it('rejects unsafe RETURNING identifiers in non-strict mode', () => {
+    const qc = new QueryComposer(UserSchema, 'users', { strict: false });
+    expect(() => qc.toInsert({ name: 'A' }, { returning: ["id; DROP TABLE users --"] })).toThrow();
+  });
+
+  it('validates values against the schema and collects failing rows', () => {
+    const qc = new QueryComposer(UserSchema, 'users', { extraColumns: ['tenant_id'] });
+    expect(() => qc.toInsert([{ name: 'A', status: null }, { name: 'B', age: 'x', tenant_id: 3 }])).toThrow(
+      "Insert validation failed for 2 row(s): row 0 'status': Expected string, received null; " +
+        "row 1 'age': Expected number, received string"
+    );
+
+    let error: unknown;
+    try {
+      qc.toInsert([{ name: 1 }, { name: 'ok', created_at: 'now' }, { status: 2 }]);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(InsertValidationError);
+    const issues = (error as InsertValidationError).issues;
+    expect(issues.map((i) => [i.row, i.path.join('.')])).toEqual([
+      [0, 'name'],
+      [2, 'status'],
+    ]);
+  });
+
+  it('throws when no rows are given', () => {
+    const qc = new QueryComposer(UserSchema, 'users');
+    expect(() => qc.toInsert([])).toThrow(QueryComposerError);
+  });
+
+  it('throws when no valid columns remain', () => {
+    const qc = new QueryComposer(UserSchema, 'users', { strict: false });
+    expect(() => qc.toInsert({ unknown: 'x' })).toThrow(QueryComposerError);
+  });
+
+  it('renders inline values with toString()', () => {
+    const qc = new QueryComposer(UserSchema, 'users');
+    expect(qc.toInsert({ name: "O'Neil", age: 5 }).toString())
+      .toBe("INSERT INTO users (name, age) VALUES ('O''Neil', 5)");
+  });
+});
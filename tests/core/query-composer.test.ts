@@ -183,6 +183,71 @@ describe('QueryComposer', () => {
     });
   });
 
+  describe('selectRaw()', () => {
+    it('appends a parameterized expression to the select list', () => {
+      const qc = new QueryComposer(TestSchema, 'users')
+        .select(['id'])
+        .selectRaw('(SELECT COUNT(*) FROM posts WHERE posts.user_id = users.id AND status = ?)', ['published'], 'post_count')
+        .where({ status: 'active' });
+      const { text, values } = qc.toParam();
+      expect(text).toBe(
+        'SELECT id, (SELECT COUNT(*) FROM posts WHERE posts.user_id = users.id AND status = $1) AS post_count ' +
+          'FROM users WHERE status = $2'
+      );
+      expect(values).toEqual(['published', 'active']);
+    });
+
+    it('validates the alias', () => {
+      const qc = new QueryComposer(TestSchema, 'users');
+      expect(() => qc.selectRaw('1', [], 'x; DROP TABLE users')).toThrow();
+    });
+  });
+
+  describe('toParam({ withTotal })', () => {
+    it('adds a window total to the paginated query', () => {
+      const qc = new QueryComposer(TestSchema, 'users');
+      qc.where({ status: 'active' }).paginate({ page: 2, limit: 10 });
+      const { text, values } = qc.toParam({ withTotal: true });
+      expect(text).toBe(
+        'SELECT *, COUNT(*) OVER() AS __total FROM users WHERE status = $1 LIMIT $2 OFFSET $3'
+      );
+      expect(values).toEqual(['active', 10, 10]);
+    });
+
+    it('keeps explicit field selection', () => {
+      const qc = new QueryComposer(TestSchema, 'users').select(['id', 'name']);
+      expect(qc.toSQL({ withTotal: true })).toBe('SELECT id, name, COUNT(*) OVER() AS __total FROM users');
+      expect(qc.toSQL()).toBe('SELECT id, name FROM users');
+    });
+
+    it('builds pagination meta from the rows', () => {
+      const qc = new QueryComposer(TestSchema, 'users').paginate({ page: 2, limit: 10 });
+      const meta = qc.getPaginationMetaFromRows([{ id: 'a', __total: '35' }]);
+      expect(meta).toEqual({
+        page: 2,
+        limit: 10,
+        offset: 10,
+        total: 35,
+        totalPages: 4,
+        hasNext: true,
+        hasPrev: true,
+      });
+    });
+
+    it('handles empty results', () => {
+      const first = new QueryComposer(TestSchema, 'users').paginate({ limit: 10 });
+      expect(first.getPaginationMetaFromRows([]).total).toBe(0);
+
+      const beyond = new QueryComposer(TestSchema, 'users').paginate({ page: 5, limit: 10 });
+      expect(beyond.getPaginationMetaFromRows([]).total).toBeUndefined();
+    });
+
+    it('throws when rows lack the total column', () => {
+      const qc = new QueryComposer(TestSchema, 'users').paginate({ limit: 10 });
+      expect(() => qc.getPaginationMetaFromRows([{ id: 'a' }])).toThrow('__total');
+    });
+  });
+
   describe('join()', () => {
     it('adds INNER JOIN', () => {
       const qc = new QueryComposer(TestSchema, 'users', { strict: false });
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { InvalidColumnError, QueryComposerError } from '../../src/core/errors';
+
+const PostSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  status: z.string(),
+  league_id: z.string(),
+  views: z.number(),
+});
+
+describe('QueryComposer.toUpdate()', () => {
+  it('builds UPDATE with SET values numbered before WHERE values', () => {
+    const qc = new QueryComposer(PostSchema, 'posts').where({ status: 'draft', views__lt: 10 });
+    const { text, values } = qc.toUpdate({ status: 'archived' }).toParam();
+    expect(text).toBe('UPDATE posts SET status = $1 WHERE status = $2 AND views < $3');
+    expect(values).toEqual(['archived', 'draft', 10]);
+  });
+
+  it('reuses or() and not() conditions', () => {
+    const qc = new QueryComposer(PostSchema, 'posts')
+      .or([{ status: 'draft' }, { status: 'pending' }])
+      .not({ league_id: 'l1' });
+    const { text, values } = qc.toUpdate({ status: 'archived', views: 0 }).toParam();
+    expect(text).toBe(
+      'UPDATE posts SET status = $1, views = $2 WHERE (status = $3 OR status = $4) AND league_id != $5'
+    );
+    expect(values).toEqual(['archived', 0, 'draft', 'pending', 'l1']);
+  });
+
+  it('builds UPDATE without WHERE when no conditions', () => {
+    const qc = new QueryComposer(PostSchema, 'posts');
+    expect(qc.toUpdate({ views: 0 }).toParam().text).toBe('UPDATE posts SET views = $1');
+  });
+
+  it('skips undefined values and keeps null', () => {
+    const qc = new QueryComposer(PostSchema, 'posts').where({ id: 'p1' });
+    const { text, values } = qc.toUpdate({ title: undefined, status: null }).toParam();
+    expect(text).toBe('UPDATE posts SET status = $1 WHERE id = $2');
+    expect(values).toEqual([null, 'p1']);
+  });
+
+  it('adds RETURNING list', () => {
+    const qc = new QueryComposer(PostSchema, 'posts').where({ id: 'p1' });
+    const { text } = qc.toUpdate({ status: 'active' }, { returning: ['id', 'status'] }).toParam();
+    expect(text).toBe('UPDATE posts SET status = $1 WHERE id = $2 RETURNING id, status');
+  });
+
+  it('renders inner joins as UPDATE ... FROM', () => {
+    const qc = new QueryComposer(PostSchema, 'posts', { strict: false })
+      .join('leagues', 'posts.league_id = leagues.id')
+      .whereRaw('leagues.status = ?', ['closed']);
+    const { text, values } = qc.toUpdate({ status: 'archived' }).toParam();
+    expect(text).toBe(
+      'UPDATE posts SET status = $1 FROM leagues WHERE posts.league_id = leagues.id AND leagues.status = $2'
+    );
+    expect(values).toEqual(['archived', 'closed']);
+  });
+
+  it('rejects non-inner joins', () => {
+    const qc = new QueryComposer(PostSchema, 'posts').leftJoin('leagues', 'posts.league_id = leagues.id');
+    expect(() => qc.toUpdate({ status: 'x' })).toThrow(QueryComposerError);
+  });
+
+  it('validates SET columns against the whitelist', () => {
+    const strict = new QueryComposer(PostSchema, 'posts');
+    expect(() => strict.toUpdate({ password: 'x' })).toThrow(InvalidColumnError);
+
+    const loose = new QueryComposer(PostSchema, 'posts', { strict: false });
+    expect(loose.toUpdate({ status: 'a', password: 'x' }).toParam().text).toBe('UPDATE posts SET status = $1');
+  });
+
+  it('throws when there is nothing to set', () => {
+    const qc = new QueryComposer(PostSchema, 'posts');
+    expect(() => qc.toUpdate({})).toThrow(QueryComposerError);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { InvalidColumnError, QueryComposerError } from '../../src/core/errors';
+
+const TeamSchema = z.object({
+  id: z.string(),
+  external_id: z.string(),
+  name: z.string(),
+  locked: z.boolean(),
+  synced_at: z.string(),
+});
+
+describe('QueryComposer.toUpsert()', () => {
+  it('updates all non-target columns from EXCLUDED by default', () => {
+    const qc = new QueryComposer(TeamSchema, 'teams');
+    const { text, values } = qc
+      .toUpsert({ external_id: 'e1', name: 'Ajax' }, { conflictTarget: ['external_id'] })
+      .toParam();
+    expect(text).toBe(
+      'INSERT INTO teams (external_id, name) VALUES ($1, $2) ON CONFLICT (external_id) DO UPDATE SET name = EXCLUDED.name'
+    );
+    expect(values).toEqual(['e1', 'Ajax']);
+  });
+
+  it('restricts update columns when given', () => {
+    const qc = new QueryComposer(TeamSchema, 'teams');
+    const { text } = qc
+      .toUpsert(
+        [{ external_id: 'e1', name: 'A', synced_at: 't1' }, { external_id: 'e2', name: 'B', synced_at: 't2' }],
+        { conflictTarget: ['external_id'], update: ['synced_at'] }
+      )
+      .toParam();
+    expect(text).toBe(
+      'INSERT INTO teams (external_id, name, synced_at) VALUES ($1, $2, $3), ($4, $5, $6) ' +
+      'ON CONFLICT (external_id) DO UPDATE SET synced_at = EXCLUDED.synced_at'
+    );
+  });
+
+  it('renders WHERE on the conflict action after the row values', () => {
+    const qc = new QueryComposer(TeamSchema, 'teams');
+    const { text, values } = qc
+      .toUpsert(
+        { external_id: 'e1', name: 'A' },
+        { conflictTarget: ['external_id'], where: { locked: false, synced_at__lt: 't0' }, returning: ['id'] }
+      )
+      .toParam();
+    expect(text).toBe(
+      'INSERT INTO teams (external_id, name) VALUES ($1, $2) ON CONFLICT (external_id) ' +
+      'DO UPDATE SET name = EXCLUDED.name WHERE teams.locked = $3 AND teams.synced_at < $4 RETURNING id'
+    );
+    expect(values).toEqual(['e1', 'A', false, 't0']);
+  });
+
+  it('supports DO NOTHING with and without a target', () => {
+    const qc = new QueryComposer(TeamSchema, 'teams');
+    expect(qc.toUpsert({ external_id: 'e1' }, { conflictTarget: ['external_id'], doNothing: true }).toParam().text)
+      .toBe('INSERT INTO teams (external_id) VALUES ($1) ON CONFLICT (external_id) DO NOTHING');
+    expect(qc.toUpsert({ external_id: 'e1' }, { doNothing: true }).toParam().text)
+      .toBe('INSERT INTO teams (external_id) VALUES ($1) ON CONFLICT DO NOTHING');
+  });
+
+  it('validates conflict target and update columns', () => {
+    const qc = new QueryComposer(TeamSchema, 'teams');
+    expect(() => qc.toUpsert({ name: 'A' }, { conflictTarget: ['nope'] })).toThrow(InvalidColumnError);
+    expect(() => qc.toUpsert({ name: 'A' }, { conflictTarget: ['id'], update: ['nope'] })).toThrow(InvalidColumnError);
+  });
+
+  it('rejects unsafe identifiers in non-strict mode', () => {
+    const qc = new QueryComposer(TeamSchema, 'teams', { strict: false });
+    expect(() => qc.toUpsert({ name: 'A' }, { conflictTarget: ['id); DROP TABLE teams; --'] })).toThrow();
+    expect(() => qc.toUpsert({ name: 'A' }, { conflictTarget: ['id'], update: ["name = 'x'"] })).toThrow();
+  });
+
+  it('requires a conflict target for DO UPDATE', () => {
+    const qc = new QueryComposer(TeamSchema, 'teams');
+    expect(() => qc.toUpsert({ name: 'A' }, {})).toThrow(QueryComposerError);
+  });
+
+  it('throws when only conflict target columns are inserted', () => {
+    const qc = new QueryComposer(TeamSchema, 'teams');
+    expect(() => qc.toUpsert({ external_id: 'e1' }, { conflictTarget: ['external_id'] })).toThrow(QueryComposerError);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { buildWindowFunction } from '../../src/core/window';
+import { InvalidColumnError, QueryComposerError } from '../../src/core/errors';
+
+const ScoreSchema = z.object({
+  id: z.string(),
+  team_id: z.string(),
+  league_id: z.string(),
+  points: z.number(),
+  played_at: z.string(),
+});
+
+describe('buildWindowFunction()', () => {
+  it('builds ranking functions without arguments', () => {
+    expect(buildWindowFunction({ fn: 'rank' }, [])).toEqual(['RANK() OVER ()', []]);
+    expect(buildWindowFunction({ fn: 'dense_rank', partitionBy: ['league_id'] }, [])[0])
+      .toBe('DENSE_RANK() OVER (PARTITION BY league_id)');
+  });
+
+  it('builds lag/lead with offset and parameterized default', () => {
+    expect(buildWindowFunction({ fn: 'lead', column: 'points' }, [])[0]).toBe('LEAD(points) OVER ()');
+    expect(buildWindowFunction({ fn: 'lag', column: 'points', offset: 2 }, [])[0]).toBe('LAG(points, 2) OVER ()');
+    expect(buildWindowFunction({ fn: 'lag', column: 'points', defaultValue: 0 }, []))
+      .toEqual(['LAG(points, 1, ?) OVER ()', [0]]);
+  });
+
+  it('builds frame clauses', () => {
+    const [expr] = buildWindowFunction(
+      { fn: 'avg', column: 'points', frame: { start: { preceding: 2 }, end: 'currentRow' } },
+      [{ column: 'played_at', direction: 'ASC' }]
+    );
+    expect(expr).toBe('AVG(points) OVER (ORDER BY played_at ASC ROWS BETWEEN 2 PRECEDING AND CURRENT ROW)');
+
+    expect(buildWindowFunction({ fn: 'last_value', column: 'points', frame: { mode: 'range', start: 'unboundedPreceding' } }, [])[0])
+      .toBe('LAST_VALUE(points) OVER (RANGE UNBOUNDED PRECEDING)');
+  });
+
+  it('rejects invalid specs', () => {
+    expect(() => buildWindowFunction({ fn: 'sum' }, [])).toThrow(QueryComposerError);
+    expect(() => buildWindowFunction({ fn: 'sum', column: '*' }, [])).toThrow(QueryComposerError);
+    expect(() => buildWindowFunction({ fn: 'ntile' as never }, [])).toThrow(QueryComposerError);
+    expect(() => buildWindowFunction({ fn: 'lag', column: 'points', offset: -1 }, [])).toThrow(QueryComposerError);
+    expect(() => buildWindowFunction({ fn: 'count', column: '*', frame: { start: { preceding: 1.5 } } }, []))
+      .toThrow(QueryComposerError);
+  });
+});
+
+describe('QueryComposer.window()', () => {
+  it('keeps * and appends the aliased window field', () => {
+    const qc = new QueryComposer(ScoreSchema, 'scores')
+      .window('rn', { fn: 'row_number', partitionBy: ['league_id'], orderBy: ['-points', 'played_at'] });
+    expect(qc.toParam().text).toBe(
+      'SELECT *, ROW_NUMBER() OVER (PARTITION BY league_id ORDER BY points DESC, played_at ASC) AS rn FROM scores'
+    );
+  });
+
+  it('appends to explicitly selected fields without mutating them', () => {
+    const qc = new QueryComposer(ScoreSchema, 'scores')
+      .select(['id', 'points'])
+      .window('total', { fn: 'count', column: '*' });
+    expect(qc.toParam().text).toBe('SELECT id, points, COUNT(*) OVER () AS total FROM scores');
+    expect(qc.toParam().text).toBe('SELECT id, points, COUNT(*) OVER () AS total FROM scores');
+  });
+
+  it('numbers window parameters before WHERE parameters', () => {
+    const qc = new QueryComposer(ScoreSchema, 'scores')
+      .where({ league_id: 'l1' })
+      .window('prev_points', { fn: 'lag', column: 'points', defaultValue: 0, orderBy: ['played_at'] });
+    const { text, values } = qc.toParam();
+    expect(text).toBe(
+      'SELECT *, LAG(points, 1, $1) OVER (ORDER BY played_at ASC) AS prev_points FROM scores WHERE league_id = $2'
+    );
+    expect(values).toEqual([0, 'l1']);
+  });
+
+  it('validates columns against the whitelist', () => {
+    const qc = new QueryComposer(ScoreSchema, 'scores');
+    expect(() => qc.window('x', { fn: 'sum', column: 'salary' })).toThrow(InvalidColumnError);
+    expect(() => qc.window('x', { fn: 'rank', partitionBy: ['nope'] })).toThrow(InvalidColumnError);
+    expect(() => qc.window('x', { fn: 'rank', orderBy: ['-nope'] })).toThrow(InvalidColumnError);
+  });
+
+  it('rejects unsafe aliases and identifiers', () => {
+    const qc = new QueryComposer(ScoreSchema, 'scores', { strict: false });
+    expect(() => qc.window('rn; DROP TABLE scores', { fn: 'rank' })).toThrow();
+    expect(() => qc.window('rn', { fn: 'sum', column: "points'" })).toThrow();
+    expect(() => qc.window('rn', { fn: 'rank', orderBy: ['-points--'] })).toThrow();
+  });
+
+  it('is excluded from count queries and preserved by clone()', () => {
+    const qc = new QueryComposer(ScoreSchema, 'scores').window('rn', { fn: 'row_number' });
+    expect(qc.toCountParam().text).toBe('SELECT COUNT(*) AS total FROM scores');
+    expect(qc.clone().toParam().text).toContain('ROW_NUMBER() OVER () AS rn');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createPgExecutor,
+  createPostgresJsExecutor,
+  resolveExecutor,
+} from '../../src/executor/adapters';
+import { QueryComposerError } from '../../src/core/errors';
+
+const query = { text: 'SELECT * FROM users WHERE id = $1', values: [1] };
+
+describe('createPgExecutor()', () => {
+  it('passes text and values and returns rows', async () => {
+    const client = { query: vi.fn().mockResolvedValue({ rows: [{ id: 1 }], rowCount: 1 }) };
+    const rows = await createPgExecutor(client)(query);
+    expect(client.query).toHaveBeenCalledWith(query.text, query.values);
+    expect(rows).toEqual([{ id: 1 }]);
+  });
+});
+
+describe('createPostgresJsExecutor()', () => {
+  it('runs the query through unsafe()', async () => {
+    const sql = { unsafe: vi.fn().mockResolvedValue([{ id: 1 }]) };
+    const rows = await createPostgresJsExecutor(sql)(query);
+    expect(sql.unsafe).toHaveBeenCalledWith(query.text, query.values);
+    expect(rows).toEqual([{ id: 1 }]);
+  });
+});
+
+describe('resolveExecutor()', () => {
+  it('returns executor functions as-is', () => {
+    const executor = vi.fn();
+    expect(resolveExecutor(executor)).toBe(executor);
+  });
+
+  it('detects postgres.js sql functions', async () => {
+    const sql = Object.assign(vi.fn(), { unsafe: vi.fn().mockResolvedValue([{ id: 2 }]) });
+    const rows = await resolveExecutor(sql)(query);
+    expect(sql).not.toHaveBeenCalled();
+    expect(rows).toEqual([{ id: 2 }]);
+  });
+
+  it('detects node-postgres clients', async () => {
+    const pool = { query: vi.fn().mockResolvedValue({ rows: [{ id: 3 }] }) };
+    expect(await resolveExecutor(pool)(query)).toEqual([{ id: 3 }]);
+  });
+
+  it('rejects unsupported clients', () => {
+    expect(() => resolveExecutor({} as never)).toThrow(QueryComposerError);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { QueryComposerError } from '../../src/core/errors';
+
+const UserSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  status: z.string(),
+});
+
+function mockPool(...results: Array<Record<string, unknown>[]>) {
+  const query = vi.fn();
+  for (const rows of results) {
+    query.mockResolvedValueOnce({ rows });
+  }
+  return { query };
+}
+
+describe('QueryComposer.execute()', () => {
+  it('runs the SELECT query and returns rows', async () => {
+    const pool = mockPool([{ id: 1, name: 'A', status: 'active' }]);
+    const rows = await new QueryComposer(UserSchema, 'users').where({ status: 'active' }).execute(pool);
+    expect(pool.query).toHaveBeenCalledWith('SELECT * FROM users WHERE status = $1', ['active']);
+    expect(rows).toEqual([{ id: 1, name: 'A', status: 'active' }]);
+  });
+
+  it('accepts executor functions', async () => {
+    const executor = vi.fn().mockResolvedValue([{ id: 1 }]);
+    await new QueryComposer(UserSchema, 'users').execute(executor);
+    expect(executor).toHaveBeenCalledWith({ text: 'SELECT * FROM users', values: [] });
+  });
+});
+
+describe('QueryComposer.first()', () => {
+  it('limits to one row without mutating the composer', async () => {
+    const pool = mockPool([{ id: 1 }]);
+    const qc = new QueryComposer(UserSchema, 'users').orderBy('name');
+    expect(await qc.first(pool)).toEqual({ id: 1 });
+    expect(pool.query).toHaveBeenCalledWith('SELECT * FROM users ORDER BY name ASC LIMIT $1', [1]);
+    expect(qc.toParam().text).toBe('SELECT * FROM users ORDER BY name ASC');
+  });
+
+  it('returns null when nothing matches', async () => {
+    expect(await new QueryComposer(UserSchema, 'users').first(mockPool([]))).toBeNull();
+  });
+});
+
+describe('QueryComposer.count()', () => {
+  it('runs the COUNT query and converts the bigint string', async () => {
+    const pool = mockPool([{ total: '42' }]);
+    const total = await new QueryComposer(UserSchema, 'users').where({ status: 'active' }).count(pool);
+    expect(total).toBe(42);
+    expect(pool.query).toHaveBeenCalledWith(
+      'SELECT COUNT(*) AS total FROM users WHERE status = $1',
+      ['active']
+    );
+  });
+
+  it('counts groups when grouped', async () => {
+    const pool = mockPool([{ total: '3' }]);
+    await new QueryComposer(UserSchema, 'users').groupBy('status').count(pool);
+    expect(pool.query).toHaveBeenCalledWith(
+      'SELECT COUNT(*) AS total FROM (SELECT COUNT(*) AS total FROM users GROUP BY status) AS grouped',
+      []
+    );
+  });
+});
+
+describe('QueryComposer.paginateWithMeta()', () => {
+  it('reads the window total in one round trip', async () => {
+    const pool = mockPool([
+      { id: 11, name: 'K', __total: '25' },
+      { id: 12, name: 'L', __total: '25' },
+    ]);
+    const { rows, meta } = await new QueryComposer(UserSchema, 'users')
+      .paginate({ page: 2, limit: 10 })
+      .paginateWithMeta(pool);
+
+    expect(pool.query).toHaveBeenCalledTimes(1);
+    expect(pool.query.mock.calls[0][0]).toContain('COUNT(*) OVER() AS __total');
+    expect(rows).toEqual([{ id: 11, name: 'K' }, { id: 12, name: 'L' }]);
+    expect(meta).toMatchObject({ page: 2, limit: 10, total: 25, totalPages: 3, hasNext: true });
+  });
+
+  it('falls back to a COUNT query past the last page', async () => {
+    const pool = mockPool([], [{ total: '25' }]);
+    const { rows, meta } = await new QueryComposer(UserSchema, 'users')
+      .paginate({ page: 9, limit: 10 })
+      .paginateWithMeta(pool);
+
+    expect(pool.query).toHaveBeenCalledTimes(2);
+    expect(rows).toEqual([]);
+    expect(meta).toMatchObject({ page: 9, total: 25, hasNext: false, hasPrev: true });
+  });
+
+  it('uses default pagination when none was set', async () => {
+    const pool = mockPool([]);
+    const qc = new QueryComposer(UserSchema, 'users');
+    const { meta } = await qc.paginateWithMeta(pool);
+    expect(pool.query.mock.calls[0][1]).toEqual([20, 0]);
+    expect(meta.total).toBe(0);
+    expect(qc.toParam().text).toBe('SELECT * FROM users');
+  });
+
+  it('rejects cursor pagination', async () => {
+    const qc = new QueryComposer(UserSchema, 'users').cursorPaginate({ limit: 5 });
+    await expect(qc.paginateWithMeta(mockPool())).rejects.toThrow(QueryComposerError);
+  });
+});
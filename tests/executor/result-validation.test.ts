@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as z from 'zod';
+import { QueryComposer } from '../../src/core/query-composer';
+import { ResultValidationError } from '../../src/core/errors';
+import { buildResultSchema } from '../../src/utils/zod-utils';
+
+const UserSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  age: z.number().int().nullable(),
+  active: z.boolean(),
+  created_at: z.date(),
+});
+
+function mockPool(rows: Record<string, unknown>[]) {
+  return { query: vi.fn().mockResolvedValue({ rows }) };
+}
+
+describe('buildResultSchema()', () => {
+  it('picks and omits shape keys', () => {
+    const picked = buildResultSchema(UserSchema, { pick: ['id', 'name'] });
+    expect(picked.parse({ id: 1, name: 'A', extra: true })).toEqual({ id: 1, name: 'A' });
+
+    const omitted = buildResultSchema(UserSchema, { omit: ['age', 'active', 'created_at'] });
+    expect(omitted.parse({ id: 1, name: 'A' })).toEqual({ id: 1, name: 'A' });
+  });
+
+  it('applies the unknown-key mode', () => {
+    const row = { id: 1, name: 'A', extra: true };
+    expect(() => buildResultSchema(UserSchema, { pick: ['id', 'name'], mode: 'strict' }).parse(row)).toThrow();
+    expect(buildResultSchema(UserSchema, { pick: ['id', 'name'], mode: 'passthrough' }).parse(row)).toEqual(row);
+  });
+
+  it('accepts extra computed keys', () => {
+    const schema = buildResultSchema(UserSchema, { pick: ['id'], extra: ['rank'], mode: 'strict' });
+    expect(schema.parse({ id: 1, rank: '3' })).toEqual({ id: 1, rank: '3' });
+  });
+
+  it('coerces driver strings while keeping field checks', () => {
+    const schema = buildResultSchema(UserSchema, { coerce: true });
+    expect(schema.parse({
+      id: '1',
+      name: 'A',
+      age: null,
+      active: 't',
+      created_at: '2024-01-01T00:00:00.000Z',
+    })).toEqual({
+      id: 1,
+      name: 'A',
+      age: null,
+      active: true,
+      created_at: new Date('2024-01-01T00:00:00.000Z'),
+    });
+    expect(() => schema.parse({ id: 1, name: 'A', age: '1.5', active: true, created_at: new Date() })).toThrow();
+  });
+
+  it('returns non-object schemas unchanged', () => {
+    const schema = z.record(z.unknown());
+    expect(buildResultSchema(schema, { pick: ['id'] })).toBe(schema);
+  });
+});
+
+describe('QueryComposer.parseResults()', () => {
+  it('leaves rows untouched unless enabled', async () => {
+    const rows = [{ id: '1', junk: true }];
+    expect(await new QueryComposer(UserSchema, 'users').execute(mockPool(rows))).toEqual(rows);
+  });
+
+  it('parses rows against the selected columns', async () => {
+    const pool = mockPool([{ id: '1', age: '30', password: 'x' }]);
+    const rows = await new QueryComposer(UserSchema, 'users')
+      .select(['id', 'age'])
+      .parseResults({ coerce: true })
+      .execute(pool);
+    expect(rows).toEqual([{ id: 1, age: 30 }]);
+  });
+
+  it('respects exclude()', async () => {
+    const pool = mockPool([{ id: 1, name: 'A', age: null, active: true }]);
+    const qc = new QueryComposer(UserSchema, 'users').exclude(['created_at']).parseResults({ mode: 'strict' });
+    expect(await qc.execute(pool)).toEqual([{ id: 1, name: 'A', age: null, active: true }]);
+  });
+
+  it('keeps whitelisted columns missing from the schema', async () => {
+    const pool = mockPool([{ id: 1, name: 'A', age: 30, tenant_id: 7, created_at: '2024-01-01' }]);
+    const rows = await new QueryComposer(z.object({ name: z.string(), age: z.number() }), 'users', {
+      extraColumns: ['tenant_id'],
+    })
+      .parseResults({ mode: 'strict' })
+      .execute(pool);
+    expect(rows).toEqual([{ id: 1, name: 'A', age: 30, tenant_id: 7, created_at: '2024-01-01' }]);
+  });
+
+  it('keeps computed columns', async () => {
+    const pool = mockPool([{ name: 'A', rank: '1' }]);
+    const rows = await new QueryComposer(UserSchema, 'users')
+      .select(['name'])
+      .window('rank', { fn: 'rank', orderBy: ['name'] })
+      .parseResults({ mode: 'strict' })
+      .execute(pool);
+    expect(rows).toEqual([{ name: 'A', rank: '1' }]);
+  });
+
+  it('aggregates row-level issues into one error', async () => {
+    const pool = mockPool([
+      { id: 1, name: 'A' },
+      { id: 'x', name: 2 },
+      { id: 3, name: null },
+    ]);
+    const qc = new QueryComposer(UserSchema, 'users').select(['id', 'name']).parseResults();
+
+    const error = await qc.execute(pool).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ResultValidationError);
+    const issues = (error as ResultValidationError).issues;
+    expect(issues.map((i) => [i.row, i.path.join('.')])).toEqual([
+      [1, 'id'],
+      [1, 'name'],
+      [2, 'name'],
+    ]);
+    expect((error as Error).message).toContain('2 row(s)');
+  });
+
+  it('applies to first() and paginateWithMeta()', async () => {
+    const qc = new QueryComposer(UserSchema, 'users').select(['id']).parseResults({ coerce: true });
+    expect(await qc.first(mockPool([{ id: '7' }]))).toEqual({ id: 7 });
+
+    const { rows } = await qc.paginate({ limit: 5 }).paginateWithMeta(mockPool([{ id: '7', __total: '1' }]));
+    expect(rows).toEqual([{ id: 7 }]);
+  });
+
+  it('is carried by clone() and cleared by reset()', async () => {
+    const qc = new QueryComposer(UserSchema, 'users').select(['id']).parseResults({ coerce: true });
+    expect(await qc.clone().execute(mockPool([{ id: '1' }]))).toEqual([{ id: 1 }]);
+    expect(await qc.reset().execute(mockPool([{ id: '1' }]))).toEqual([{ id: '1' }]);
+  });
+});
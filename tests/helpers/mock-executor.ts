@@ -0,0 +1,16 @@
+import { vi } from 'vitest';
+
+type Rows = Record<string, unknown>[];
+
+/**
+ * Mock query executor for relation tests. Given an array, every query
+ * resolves to those rows; given a map, each query resolves to the rows
+ * of the first table in its FROM clause (or none).
+ */
+export function mockExecutor(source: Rows | Record<string, Rows> = []) {
+  return vi.fn(async (query: { text: string; values: unknown[] }): Promise<Rows> => {
+    if (Array.isArray(source)) return source;
+    const table = /FROM (\w+)/.exec(query.text)![1];
+    return source[table] ?? [];
+  });
+}
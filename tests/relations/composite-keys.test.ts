@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { createRelationLoader, groupByKey, loadIncludes } from '../../src/relations/loader';
+import { QueryComposerError } from '../../src/core/errors';
+import { mockExecutor } from '../helpers/mock-executor';
+
+const Customer = defineModel({
+  name: 'TenantCustomer',
+  table: 'customers',
+  schema: z.object({ tenant_id: z.number(), id: z.number(), name: z.string() }),
+  primaryKey: ['tenant_id', 'id'],
+  relations: {
+    orders: {
+      type: 'hasMany',
+      target: 'orders',
+      foreignKey: ['tenant_id', 'customer_id'],
+      primaryKey: ['tenant_id', 'id'],
+    },
+    tags: {
+      type: 'hasManyThrough',
+      target: 'tags',
+      through: 'customer_tags',
+      foreignKey: ['tenant_id', 'customer_id'],
+      primaryKey: ['tenant_id', 'id'],
+      throughForeignKey: ['tenant_id', 'tag_id'],
+      throughPrimaryKey: ['tenant_id', 'id'],
+    },
+    broken: { type: 'hasMany', target: 'orders', foreignKey: ['customer_id'], primaryKey: ['tenant_id', 'id'] },
+  },
+});
+
+const Order = defineModel({
+  name: 'TenantOrder',
+  table: 'orders',
+  schema: z.object({ tenant_id: z.number(), id: z.number(), customer_id: z.number(), total: z.number() }),
+  relations: {
+    customer: {
+      type: 'belongsTo',
+      target: 'customers',
+      foreignKey: ['tenant_id', 'customer_id'],
+      primaryKey: ['tenant_id', 'id'],
+    },
+  },
+});
+
+const CUSTOMERS = [
+  { tenant_id: 1, id: 10, name: 'A' },
+  { tenant_id: 2, id: 10, name: 'B' },
+  { tenant_id: 1, id: 11, name: 'C' },
+];
+const ORDERS = [
+  { tenant_id: 1, id: 1, customer_id: 10, total: 5 },
+  { tenant_id: 2, id: 2, customer_id: 10, total: 7 },
+  { tenant_id: 1, id: 3, customer_id: 10, total: 9 },
+];
+
+describe('composite keys', () => {
+  it('groups by value tuples', () => {
+    const grouped = groupByKey(ORDERS, ['tenant_id', 'customer_id']);
+    expect(grouped.get(JSON.stringify([1, 10]))).toHaveLength(2);
+    expect(grouped.get(JSON.stringify([2, 10]))).toHaveLength(1);
+  });
+
+  it('batch loads hasMany with a row-value IN list and stitches per tuple', async () => {
+    const executor = mockExecutor({ orders: ORDERS });
+    const rows = await loadIncludes(CUSTOMERS, Customer, [{ relation: 'orders' }], executor);
+
+    expect(executor.mock.calls[0][0]).toEqual({
+      text: 'SELECT * FROM orders WHERE (tenant_id, customer_id) IN (($1, $2), ($3, $4), ($5, $6))',
+      values: [1, 10, 2, 10, 1, 11],
+    });
+    expect(rows.map((r) => (r.orders as Array<{ id: number }>).map((o) => o.id))).toEqual([[1, 3], [2], []]);
+  });
+
+  it('batch loads belongsTo and skips keys with missing parts', async () => {
+    const executor = mockExecutor({ customers: CUSTOMERS });
+    const rows = await loadIncludes(
+      [...ORDERS, { tenant_id: 1, id: 4, customer_id: null, total: 0 }],
+      Order,
+      [{ relation: 'customer' }],
+      executor
+    );
+
+    expect(executor.mock.calls[0][0].values).toEqual([1, 10, 2, 10]);
+    expect(rows.map((r) => (r.customer as { name: string } | null)?.name ?? null)).toEqual(['A', 'B', 'A', null]);
+  });
+
+  it('filters hasManyThrough batches by every pivot key column', async () => {
+    const executor = mockExecutor({ tags: [{ tenant_id: 1, id: 5, customer_id: 10 }] });
+    const rows = await loadIncludes(CUSTOMERS.slice(0, 1), Customer, [{ relation: 'tags' }], executor);
+
+    expect(executor.mock.calls[0][0].text).toBe(
+      'SELECT tags.*, customer_tags.tenant_id, customer_tags.customer_id FROM tags ' +
+        'INNER JOIN customer_tags ON (tags.tenant_id = customer_tags.tenant_id AND tags.id = customer_tags.tag_id) ' +
+        'WHERE (customer_tags.tenant_id, customer_tags.customer_id) IN (($1, $2))'
+    );
+    expect(rows[0].tags).toHaveLength(1);
+  });
+
+  it('loads lateral includes keyed by every parent column', async () => {
+    const executor = mockExecutor({
+      customers: [
+        { __parent_key_0: 1, __parent_key_1: 10, tenant_id: 1, id: 3, customer_id: 10, total: 9 },
+        { __parent_key_0: 2, __parent_key_1: 10, tenant_id: null, id: null, customer_id: null, total: null },
+      ],
+    });
+    const rows = await loadIncludes(
+      CUSTOMERS.slice(0, 2),
+      Customer,
+      [{ relation: 'orders', strategy: 'lateral', limit: 1 }],
+      executor
+    );
+
+    expect(executor.mock.calls[0][0].text).toBe(
+      'SELECT customers.tenant_id AS __parent_key_0, customers.id AS __parent_key_1, __related.* FROM customers ' +
+        'LEFT JOIN LATERAL (SELECT * FROM orders WHERE orders.tenant_id = customers.tenant_id ' +
+        'AND orders.customer_id = customers.id LIMIT $1 OFFSET $2) __related ON (TRUE) ' +
+        'WHERE (customers.tenant_id, customers.id) IN (($3, $4), ($5, $6))'
+    );
+    expect(rows[0].orders).toEqual([{ tenant_id: 1, id: 3, customer_id: 10, total: 9 }]);
+    expect(rows[1].orders).toEqual([]);
+  });
+
+  it('correlates every column in SQL strategies and joins', () => {
+    const { text } = createModelQuery(Customer)
+      .whereHas('orders')
+      .joinRelation('orders', { alias: 'o' })
+      .toParam();
+    expect(text).toBe(
+      'SELECT * FROM customers INNER JOIN orders o ON (o.tenant_id = customers.tenant_id AND o.customer_id = customers.id) ' +
+        'WHERE EXISTS (SELECT 1 FROM orders WHERE orders.tenant_id = customers.tenant_id AND orders.customer_id = customers.id)'
+    );
+  });
+
+  it('batches DataLoader tuple keys by value', async () => {
+    const executor = vi.fn().mockResolvedValue(ORDERS);
+    const loader = createRelationLoader(Customer, 'orders', executor);
+    const [a, b, again] = await Promise.all([loader.load([1, 10]), loader.load([2, 10]), loader.load([1, 10])]);
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(executor.mock.calls[0][0].values).toEqual([1, 10, 2, 10]);
+    expect(a).toHaveLength(2);
+    expect(b).toHaveLength(1);
+    expect(again).toBe(a);
+  });
+
+  it('rejects keys with mismatched column counts', () => {
+    expect(() => createModelQuery(Customer).whereHas('broken')).toThrow(QueryComposerError);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { buildCorrelatedQuery, getParentKey } from '../../src/relations/correlation';
+
+const League = defineModel({
+  name: 'CorrelationLeague',
+  table: 'leagues',
+  schema: z.object({ id: z.number(), country_id: z.number() }),
+  relations: {
+    posts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id' },
+    profile: { type: 'hasOne', target: 'profiles', foreignKey: 'league_id', primaryKey: 'id' },
+    country: { type: 'belongsTo', target: 'countries', foreignKey: 'country_id', primaryKey: 'id' },
+    teams: {
+      type: 'hasManyThrough',
+      target: 'teams',
+      through: 'league_teams',
+      foreignKey: 'league_id',
+      throughForeignKey: 'team_id',
+      primaryKey: 'id',
+      throughPrimaryKey: 'id',
+    },
+  },
+});
+
+defineModel({
+  name: 'CorrelationPost',
+  table: 'posts',
+  schema: z.object({ id: z.number(), league_id: z.number(), status: z.string() }),
+});
+
+describe('buildCorrelatedQuery()', () => {
+  it('correlates hasMany and hasOne on the foreign key', () => {
+    expect(buildCorrelatedQuery(League, League.relations!.posts).toParam().text)
+      .toBe('SELECT * FROM posts WHERE posts.league_id = leagues.id');
+    expect(buildCorrelatedQuery(League, League.relations!.profile).toParam().text)
+      .toBe('SELECT * FROM profiles WHERE profiles.league_id = leagues.id');
+  });
+
+  it('correlates belongsTo on the parent foreign key', () => {
+    expect(buildCorrelatedQuery(League, League.relations!.country).toParam().text)
+      .toBe('SELECT * FROM countries WHERE countries.id = leagues.country_id');
+  });
+
+  it('joins the pivot table for hasManyThrough', () => {
+    expect(buildCorrelatedQuery(League, League.relations!.teams).toParam().text).toBe(
+      'SELECT teams.* FROM teams INNER JOIN league_teams ON (teams.id = league_teams.team_id) ' +
+        'WHERE league_teams.league_id = leagues.id'
+    );
+  });
+
+  it('uses a custom parent reference', () => {
+    expect(buildCorrelatedQuery(League, League.relations!.posts, 'l').toParam().text)
+      .toBe('SELECT * FROM posts WHERE posts.league_id = l.id');
+  });
+
+  it('filters on the target model columns', () => {
+    const qc = buildCorrelatedQuery(League, League.relations!.posts).where({ status: 'published' });
+    expect(qc.toParam().text).toContain('AND status = $1');
+  });
+});
+
+describe('getParentKey()', () => {
+  it('returns the foreign key for belongsTo and the primary key otherwise', () => {
+    expect(getParentKey(League.relations!.country)).toBe('country_id');
+    expect(getParentKey(League.relations!.posts)).toBe('id');
+  });
+});
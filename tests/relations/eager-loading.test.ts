@@ -0,0 +1,244 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { loadIncludes } from '../../src/relations/loader';
+import { QueryComposerError, RelationNotFoundError } from '../../src/core/errors';
+import { mockExecutor } from '../helpers/mock-executor';
+
+const LeagueSchema = z.object({ id: z.number(), name: z.string() });
+const PostSchema = z.object({ id: z.number(), title: z.string(), league_id: z.number(), author_id: z.number() });
+const AuthorSchema = z.object({ id: z.number(), name: z.string() });
+
+const League = defineModel({
+  name: 'EagerLeague',
+  table: 'eager_leagues',
+  schema: LeagueSchema,
+  relations: {
+    posts: { type: 'hasMany', target: 'eager_posts', foreignKey: 'league_id', primaryKey: 'id' },
+    teams: {
+      type: 'hasManyThrough',
+      target: 'eager_teams',
+      through: 'eager_league_teams',
+      foreignKey: 'league_id',
+      throughForeignKey: 'team_id',
+      primaryKey: 'id',
+      throughPrimaryKey: 'id',
+    },
+    orphans: { type: 'hasMany', target: 'unknown_table', foreignKey: 'league_id', primaryKey: 'id' },
+  },
+});
+
+const Post = defineModel({
+  name: 'EagerPost',
+  table: 'eager_posts',
+  schema: PostSchema,
+  relations: {
+    author: { type: 'belongsTo', target: 'eager_authors', foreignKey: 'author_id', primaryKey: 'id' },
+  },
+});
+
+defineModel({ name: 'EagerAuthor', table: 'eager_authors', schema: AuthorSchema });
+
+const LEAGUES = [{ id: 1, name: 'A' }, { id: 2, name: 'B' }, { id: 3, name: 'C' }];
+const POSTS = [
+  { id: 10, title: 'p10', league_id: 1, author_id: 100 },
+  { id: 11, title: 'p11', league_id: 1, author_id: 101 },
+  { id: 12, title: 'p12', league_id: 2, author_id: 100 },
+];
+const AUTHORS = [{ id: 100, name: 'Ann' }, { id: 101, name: 'Bob' }];
+
+describe('ModelQueryComposer.findAll()', () => {
+  it('returns parent rows when nothing is included', async () => {
+    const executor = mockExecutor({ eager_leagues: LEAGUES });
+    expect(await createModelQuery(League).findAll(executor)).toEqual(LEAGUES);
+    expect(executor).toHaveBeenCalledTimes(1);
+  });
+
+  it('stitches hasMany children in one batched query', async () => {
+    const executor = mockExecutor({ eager_leagues: LEAGUES, eager_posts: POSTS });
+    const leagues = await createModelQuery(League).include('posts').findAll(executor);
+
+    expect(executor).toHaveBeenCalledTimes(2);
+    expect(executor.mock.calls[1][0]).toEqual({
+      text: 'SELECT * FROM eager_posts WHERE league_id IN ($1, $2, $3)',
+      values: [1, 2, 3],
+    });
+    expect(leagues.map((l) => (l.posts as unknown[]).length)).toEqual([2, 1, 0]);
+  });
+
+  it('applies alias, orderBy, query callback and per-parent limit', async () => {
+    const executor = mockExecutor({ eager_leagues: LEAGUES, eager_posts: POSTS });
+    const leagues = await createModelQuery(League)
+      .include('posts', {
+        alias: 'latest',
+        orderBy: ['-id'],
+        limit: 1,
+        query: (q) => q.where({ title__startswith: 'p' }),
+      })
+      .findAll(executor);
+
+    expect(executor.mock.calls[1][0].text).toBe(
+      'SELECT * FROM eager_posts WHERE league_id IN ($1, $2, $3) AND title ILIKE $4 ORDER BY id DESC'
+    );
+    expect(leagues[0].latest).toEqual([POSTS[0]]);
+    expect(leagues[0]).not.toHaveProperty('posts');
+  });
+
+  it('keeps the callback form of include()', async () => {
+    const executor = mockExecutor({ eager_leagues: LEAGUES, eager_posts: [] });
+    await createModelQuery(League).include('posts', (q) => q.where({ title: 'x' })).findAll(executor);
+    expect(executor.mock.calls[1][0].values).toEqual([1, 2, 3, 'x']);
+  });
+
+  it('loads nested includes with one batch per level', async () => {
+    const executor = mockExecutor({ eager_leagues: LEAGUES, eager_posts: POSTS, eager_authors: AUTHORS });
+    const leagues = await createModelQuery(League)
+      .include({ relation: 'posts', include: [{ relation: 'author' }] })
+      .findAll(executor);
+
+    expect(executor).toHaveBeenCalledTimes(3);
+    expect(executor.mock.calls[2][0].values).toEqual([100, 101]);
+    const posts = leagues[0].posts as Array<Record<string, unknown>>;
+    expect(posts.map((p) => p.author)).toEqual([AUTHORS[0], AUTHORS[1]]);
+    expect((leagues[1].posts as Array<Record<string, unknown>>)[0].author).toEqual(AUTHORS[0]);
+  });
+
+  it('groups hasManyThrough rows by the pivot key', async () => {
+    const executor = mockExecutor({
+      eager_leagues: LEAGUES,
+      eager_teams: [
+        { id: 7, name: 'T7', league_id: 1 },
+        { id: 7, name: 'T7', league_id: 2 },
+      ],
+    });
+    const leagues = await createModelQuery(League).include('teams').findAll(executor);
+    expect(leagues.map((l) => (l.teams as unknown[]).length)).toEqual([1, 1, 0]);
+  });
+
+  it('filters hasManyThrough batches by the pivot key', async () => {
+    const executor = mockExecutor({ eager_leagues: LEAGUES, eager_teams: [] });
+    await createModelQuery(League).include('teams').findAll(executor);
+    expect(executor.mock.calls[1][0]).toEqual({
+      text: 'SELECT eager_teams.*, eager_league_teams.league_id FROM eager_teams ' +
+        'INNER JOIN eager_league_teams ON (eager_teams.id = eager_league_teams.team_id) ' +
+        'WHERE eager_league_teams.league_id IN ($1, $2, $3)',
+      values: [1, 2, 3],
+    });
+  });
+
+  it('skips child queries when the parent query is empty', async () => {
+    const executor = mockExecutor({});
+    expect(await createModelQuery(League).include('posts').findAll(executor)).toEqual([]);
+    expect(executor).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts pg-style clients', async () => {
+    const pool = { query: vi.fn().mockResolvedValueOnce({ rows: [LEAGUES[0]] }).mockResolvedValueOnce({ rows: [POSTS[0]] }) };
+    const leagues = await createModelQuery(League).include('posts').findAll(pool);
+    expect(leagues[0].posts).toEqual([POSTS[0]]);
+  });
+});
+
+describe('loadIncludes()', () => {
+  it('keys batches by value, not string form', async () => {
+    const executor = mockExecutor({ eager_posts: [{ id: 1, league_id: 1 }] });
+    const rows = await loadIncludes([{ id: 1 }, { id: '1' }], League, [{ relation: 'posts' }], executor);
+    expect(executor.mock.calls[0][0].values).toEqual([1, '1']);
+    expect(rows[0].posts).toHaveLength(1);
+    expect(rows[1].posts).toEqual([]);
+  });
+
+  it('attaches null for missing single relations and skips null keys', async () => {
+    const NullablePost = defineModel({
+      name: 'EagerPostNullable',
+      table: 'eager_posts',
+      schema: PostSchema,
+      relations: {
+        author: { type: 'belongsTo', target: 'eager_authors', foreignKey: 'author_id', primaryKey: 'id' },
+      },
+    });
+    const executor = mockExecutor({ eager_authors: [] });
+    const rows = await loadIncludes([{ id: 1, author_id: null }, { id: 2, author_id: 5 }], NullablePost, [{ relation: 'author' }], executor);
+    expect(executor.mock.calls[0][0].values).toEqual([5]);
+    expect(rows.map((r) => r.author)).toEqual([null, null]);
+  });
+
+  it('throws for unknown relations and unresolvable nested targets', async () => {
+    const executor = mockExecutor({ unknown_table: [{ id: 1, league_id: 1 }] });
+    await expect(loadIncludes([{ id: 1 }], League, [{ relation: 'nope' }], executor))
+      .rejects.toThrow(RelationNotFoundError);
+    await expect(loadIncludes([{ id: 1 }], League, [{ relation: 'orphans', include: [{ relation: 'x' }] }], executor))
+      .rejects.toThrow(QueryComposerError);
+  });
+});
+
+describe('lateral include strategy', () => {
+  it('loads the top N rows per parent in one query', async () => {
+    const executor = mockExecutor({
+      eager_leagues: [
+        { __parent_key: 1, id: 11, title: 'p11', league_id: 1, author_id: 101 },
+        { __parent_key: 1, id: 10, title: 'p10', league_id: 1, author_id: 100 },
+        { __parent_key: 2, id: 12, title: 'p12', league_id: 2, author_id: 100 },
+        { __parent_key: 3, id: null, title: null, league_id: null, author_id: null },
+      ],
+    });
+    const rows = await loadIncludes(
+      LEAGUES,
+      League,
+      [{ relation: 'posts', strategy: 'lateral', orderBy: ['-id'], limit: 2 }],
+      executor
+    );
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(executor.mock.calls[0][0]).toEqual({
+      text: 'SELECT eager_leagues.id AS __parent_key, __related.* FROM eager_leagues ' +
+        'LEFT JOIN LATERAL (SELECT * FROM eager_posts WHERE eager_posts.league_id = eager_leagues.id ' +
+        'ORDER BY id DESC LIMIT $1 OFFSET $2) __related ON (TRUE) WHERE eager_leagues.id IN ($3, $4, $5)',
+      values: [2, 0, 1, 2, 3],
+    });
+    expect(rows.map((r) => (r.posts as Array<{ id: number }>).map((p) => p.id))).toEqual([[11, 10], [12], []]);
+    expect((rows[0].posts as Array<Record<string, unknown>>)[0]).not.toHaveProperty('__parent_key');
+  });
+
+  it('applies the query callback inside the lateral subquery', async () => {
+    const executor = mockExecutor({ eager_leagues: [] });
+    await loadIncludes(
+      [{ id: 1 }],
+      League,
+      [{ relation: 'posts', strategy: 'lateral', query: (q) => q.where({ title: 'x' }) }],
+      executor
+    );
+    const { text, values } = executor.mock.calls[0][0];
+    expect(text).toContain('WHERE eager_posts.league_id = eager_leagues.id AND title = $1) __related');
+    expect(values).toEqual(['x', 1]);
+  });
+
+  it('loads belongsTo as a batch', async () => {
+    const executor = mockExecutor({ eager_authors: AUTHORS });
+    const posts = await loadIncludes(
+      [{ id: 10, author_id: 100 }, { id: 11, author_id: 100 }],
+      Post,
+      [{ relation: 'author', strategy: 'lateral' }],
+      executor
+    );
+
+    expect(executor.mock.calls[0][0]).toEqual({ text: 'SELECT * FROM eager_authors WHERE id IN ($1)', values: [100] });
+    expect(posts.map((post) => post.author)).toEqual([AUTHORS[0], AUTHORS[0]]);
+  });
+
+  it('supports nested includes and the include() option', async () => {
+    const executor = mockExecutor({
+      eager_leagues: [{ __parent_key: 1, id: 10, title: 'p10', league_id: 1, author_id: 100 }],
+      eager_authors: AUTHORS,
+    });
+    executor.mockImplementationOnce(async () => [LEAGUES[0]]);
+    const leagues = await createModelQuery(League)
+      .include('posts', { strategy: 'lateral', limit: 1, include: [{ relation: 'author' }] })
+      .findAll(executor);
+
+    expect(executor).toHaveBeenCalledTimes(3);
+    const posts = leagues[0].posts as Array<Record<string, unknown>>;
+    expect(posts[0].author).toEqual(AUTHORS[0]);
+  });
+});
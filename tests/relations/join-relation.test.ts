@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { RelationNotFoundError } from '../../src/core/errors';
+
+const League = defineModel({
+  name: 'JoinLeague',
+  table: 'leagues',
+  schema: z.object({ id: z.number(), name: z.string(), country_id: z.number() }),
+  relations: {
+    country: { type: 'belongsTo', target: 'countries', foreignKey: 'country_id', primaryKey: 'id' },
+    posts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id' },
+    teams: {
+      type: 'hasManyThrough',
+      target: 'teams',
+      through: 'league_teams',
+      foreignKey: 'league_id',
+      throughForeignKey: 'team_id',
+      primaryKey: 'id',
+      throughPrimaryKey: 'id',
+    },
+    bad: { type: 'belongsTo', target: 'countries', foreignKey: 'x; DROP TABLE y', primaryKey: 'id' },
+  },
+});
+
+defineModel({ name: 'JoinCountry', table: 'countries', schema: z.object({ id: z.number(), code: z.string() }) });
+defineModel({ name: 'JoinTeam', table: 'teams', schema: z.object({ id: z.number(), name: z.string() }) });
+
+describe('ModelQueryComposer.joinRelation()', () => {
+  it('derives the ON clause of a belongsTo relation', () => {
+    const { text } = createModelQuery(League).joinRelation('country').toParam();
+    expect(text).toBe('SELECT * FROM leagues INNER JOIN countries ON (countries.id = leagues.country_id)');
+  });
+
+  it('supports join type and alias, exposing prefixed target columns', () => {
+    const { text, values } = createModelQuery(League)
+      .joinRelation('country', { type: 'left', alias: 'c' })
+      .select(['leagues.name', 'c.code'])
+      .where({ 'c.code__in': ['GB', 'ES'], name: 'Premier' })
+      .orderBy('-c.code')
+      .toParam();
+    expect(text).toBe(
+      'SELECT leagues.name, c.code FROM leagues LEFT JOIN countries c ON (c.id = leagues.country_id) ' +
+        'WHERE c.code IN ($1, $2) AND name = $3 ORDER BY c.code DESC'
+    );
+    expect(values).toEqual(['GB', 'ES', 'Premier']);
+  });
+
+  it('derives hasMany joins from the foreign key', () => {
+    const { text } = createModelQuery(League).joinRelation('posts', { type: 'right' }).toParam();
+    expect(text).toBe('SELECT * FROM leagues RIGHT JOIN posts ON (posts.league_id = leagues.id)');
+  });
+
+  it('joins the pivot table for hasManyThrough', () => {
+    const { text } = createModelQuery(League)
+      .joinRelation('teams', { alias: 't' })
+      .where({ 't.name': 'Reds' })
+      .toParam();
+    expect(text).toBe(
+      'SELECT * FROM leagues INNER JOIN league_teams ON (league_teams.league_id = leagues.id) ' +
+        'INNER JOIN teams t ON (t.id = league_teams.team_id) WHERE t.name = $1'
+    );
+  });
+
+  it('only whitelists columns of joined relations', () => {
+    const { text } = createModelQuery(League)
+      .joinRelation('country')
+      .where({ 'countries.code': 'GB', 'posts.title': 'skipped' })
+      .toParam();
+    expect(text).toBe(
+      'SELECT * FROM leagues INNER JOIN countries ON (countries.id = leagues.country_id) WHERE countries.code = $1'
+    );
+  });
+
+  it('keeps joined columns on clone() and drops them on reset()', () => {
+    const query = createModelQuery(League).joinRelation('country');
+    expect(query.clone().where({ 'countries.code': 'GB' }).toParam().values).toEqual(['GB']);
+    expect(query.reset().where({ 'countries.code': 'GB' }).toParam().values).toEqual([]);
+  });
+
+  it('validates relations and identifiers', () => {
+    expect(() => createModelQuery(League).joinRelation('missing')).toThrow(RelationNotFoundError);
+    expect(() => createModelQuery(League).joinRelation('country', { alias: 'c;' })).toThrow('Unsafe SQL identifier');
+    expect(() => createModelQuery(League).joinRelation('bad')).toThrow('Unsafe SQL identifier');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { buildJsonSubselect } from '../../src/relations/correlation';
+import { QueryComposerError, RelationNotFoundError } from '../../src/core/errors';
+
+const League = defineModel({
+  name: 'JsonLeague',
+  table: 'leagues',
+  schema: z.object({ id: z.number(), name: z.string(), country_id: z.number() }),
+  relations: {
+    posts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id' },
+    country: { type: 'belongsTo', target: 'countries', foreignKey: 'country_id', primaryKey: 'id' },
+    teams: {
+      type: 'hasManyThrough',
+      target: 'teams',
+      through: 'league_teams',
+      foreignKey: 'league_id',
+      throughForeignKey: 'team_id',
+      primaryKey: 'id',
+      throughPrimaryKey: 'id',
+    },
+  },
+});
+
+defineModel({
+  name: 'JsonPost',
+  table: 'posts',
+  schema: z.object({ id: z.number(), league_id: z.number(), author_id: z.number(), status: z.string() }),
+  relations: {
+    author: { type: 'belongsTo', target: 'authors', foreignKey: 'author_id', primaryKey: 'id' },
+  },
+});
+
+defineModel({ name: 'JsonAuthor', table: 'authors', schema: z.object({ id: z.number(), name: z.string() }) });
+
+describe('json include strategy', () => {
+  it('renders hasMany as a json_agg subselect', () => {
+    const { text, values } = createModelQuery(League)
+      .include('posts', { strategy: 'json' })
+      .toParam();
+    expect(text).toBe(
+      "SELECT *, (SELECT COALESCE(json_agg(__row), '[]') FROM " +
+        '(SELECT * FROM posts WHERE posts.league_id = leagues.id) __row) AS posts FROM leagues'
+    );
+    expect(values).toEqual([]);
+  });
+
+  it('renders belongsTo as row_to_json of one row', () => {
+    const { text } = createModelQuery(League)
+      .select(['id', 'name'])
+      .include('country', { strategy: 'json', alias: 'nation' })
+      .toParam();
+    expect(text).toBe(
+      'SELECT id, name, (SELECT row_to_json(__row) FROM ' +
+        '(SELECT * FROM countries WHERE countries.id = leagues.country_id LIMIT $1 OFFSET $2) __row) AS nation FROM leagues'
+    );
+  });
+
+  it('selects only target columns for hasManyThrough', () => {
+    const { text } = createModelQuery(League).include('teams', { strategy: 'json' }).toParam();
+    expect(text).toContain(
+      '(SELECT teams.* FROM teams INNER JOIN league_teams ON (teams.id = league_teams.team_id) ' +
+        'WHERE league_teams.league_id = leagues.id) __row'
+    );
+  });
+
+  it('applies filter callbacks, order and limit with parameters numbered in place', () => {
+    const { text, values } = createModelQuery(League)
+      .include('posts', {
+        strategy: 'json',
+        query: (q) => q.where({ status: 'published' }),
+        orderBy: ['-id'],
+        limit: 5,
+      })
+      .where({ name: 'Premier' })
+      .toParam();
+    expect(text).toBe(
+      "SELECT *, (SELECT COALESCE(json_agg(__row), '[]') FROM (SELECT * FROM posts " +
+        'WHERE posts.league_id = leagues.id AND status = $1 ORDER BY id DESC LIMIT $2 OFFSET $3) __row) AS posts ' +
+        'FROM leagues WHERE name = $4'
+    );
+    expect(values).toEqual(['published', 5, 0, 'Premier']);
+  });
+
+  it('renders nested includes inside the subselect', () => {
+    const { text } = createModelQuery(League)
+      .include('posts', { strategy: 'json', include: [{ relation: 'author' }] })
+      .toParam();
+    expect(text).toContain(
+      '(SELECT *, (SELECT row_to_json(__row) FROM (SELECT * FROM authors WHERE authors.id = posts.author_id ' +
+        'LIMIT $1 OFFSET $2) __row) AS author FROM posts WHERE posts.league_id = leagues.id) __row) AS posts'
+    );
+  });
+
+  it('returns rows in one query from findAll()', async () => {
+    const row = { id: 1, name: 'A', country_id: 2, posts: [{ id: 10 }] };
+    const executor = vi.fn().mockResolvedValue([row]);
+    const rows = await createModelQuery(League)
+      .include('posts', { strategy: 'json' })
+      .include('country', { strategy: 'json' })
+      .findAll(executor);
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(rows).toEqual([row]);
+  });
+
+  it('can be mixed with batched includes', async () => {
+    const executor = vi.fn()
+      .mockResolvedValueOnce([{ id: 1, country_id: 2, posts: [] }])
+      .mockResolvedValueOnce([{ id: 2, name: 'X' }]);
+    const rows = await createModelQuery(League)
+      .include('posts', { strategy: 'json' })
+      .include('country')
+      .findAll(executor);
+    expect(executor).toHaveBeenCalledTimes(2);
+    expect(rows[0].country).toEqual({ id: 2, name: 'X' });
+  });
+
+  it('validates nested relations', () => {
+    expect(() => buildJsonSubselect(League, League.relations!.posts, {
+      relation: 'posts',
+      include: [{ relation: 'missing' }],
+    })).toThrow(RelationNotFoundError);
+    expect(() => buildJsonSubselect(League, League.relations!.country, {
+      relation: 'country',
+      include: [{ relation: 'anything' }],
+    })).toThrow(QueryComposerError);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { loadIncludes } from '../../src/relations/loader';
+import { InvalidColumnError, QueryComposerError } from '../../src/core/errors';
+import { mockExecutor } from '../helpers/mock-executor';
+
+const League = defineModel({
+  name: 'PivotLeague',
+  table: 'leagues',
+  schema: z.object({ id: z.number(), name: z.string() }),
+  relations: {
+    teams: {
+      type: 'hasManyThrough',
+      target: 'teams',
+      through: 'league_teams',
+      foreignKey: 'league_id',
+      throughForeignKey: 'team_id',
+      primaryKey: 'id',
+      throughPrimaryKey: 'id',
+      throughSchema: z.object({ league_id: z.number(), team_id: z.number(), role: z.string(), joined_at: z.date() }),
+    },
+    activeTeams: {
+      type: 'hasManyThrough',
+      target: 'teams',
+      through: 'league_teams',
+      foreignKey: 'league_id',
+      throughForeignKey: 'team_id',
+      primaryKey: 'id',
+      throughPrimaryKey: 'id',
+      withPivot: ['role'],
+      wherePivot: { active: true },
+    },
+    country: { type: 'belongsTo', target: 'countries', foreignKey: 'country_id', primaryKey: 'id' },
+  },
+});
+
+defineModel({ name: 'PivotTeam', table: 'teams', schema: z.object({ id: z.number(), name: z.string() }) });
+
+describe('pivot columns', () => {
+  it('selects pivot columns and filters on the pivot table in batch includes', async () => {
+    const executor = mockExecutor([{ id: 7, name: 'Ajax', league_id: 1, pivot: { role: 'host' } }]);
+    const [league] = await loadIncludes(
+      [{ id: 1 }],
+      League,
+      [{ relation: 'teams', withPivot: ['role', 'joined_at'], wherePivot: { role__in: ['host', 'guest'] } }],
+      executor
+    );
+    expect(executor.mock.calls[0][0]).toEqual({
+      text:
+        "SELECT teams.*, league_teams.league_id, json_build_object('role', league_teams.role, 'joined_at', " +
+        'league_teams.joined_at) AS pivot FROM teams INNER JOIN league_teams ON (teams.id = league_teams.team_id) ' +
+        'WHERE league_teams.role IN ($1, $2) AND league_teams.league_id IN ($3)',
+      values: ['host', 'guest', 1],
+    });
+    expect(league.teams).toEqual([{ id: 7, name: 'Ajax', league_id: 1, pivot: { role: 'host' } }]);
+  });
+
+  it('merges relation-level pivot options with the include', async () => {
+    const executor = mockExecutor();
+    await loadIncludes(
+      [{ id: 1 }],
+      League,
+      [{ relation: 'activeTeams', withPivot: ['joined_at'], strategy: 'lateral' }],
+      executor
+    );
+    expect(executor.mock.calls[0][0].text).toBe(
+      'SELECT leagues.id AS __parent_key, __related.* FROM leagues LEFT JOIN LATERAL ' +
+        "(SELECT teams.*, json_build_object('role', league_teams.role, 'joined_at', league_teams.joined_at) AS pivot " +
+        'FROM teams INNER JOIN league_teams ON (teams.id = league_teams.team_id) ' +
+        'WHERE league_teams.active = $1 AND league_teams.league_id = leagues.id) __related ON (TRUE) ' +
+        'WHERE leagues.id IN ($2)'
+    );
+  });
+
+  it('renders pivot columns in JSON includes', () => {
+    const { text } = createModelQuery(League).include('teams', { strategy: 'json', withPivot: ['role'] }).toParam();
+    expect(text).toContain("SELECT teams.*, json_build_object('role', league_teams.role) AS pivot FROM teams");
+  });
+
+  it('applies relation-level wherePivot to whereHas', () => {
+    const { text, values } = createModelQuery(League).whereHas('activeTeams').toParam();
+    expect(text).toBe(
+      'SELECT * FROM leagues WHERE EXISTS (SELECT 1 FROM teams ' +
+        'INNER JOIN league_teams ON (teams.id = league_teams.team_id) ' +
+        'WHERE league_teams.active = $1 AND league_teams.league_id = leagues.id)'
+    );
+    expect(values).toEqual([true]);
+  });
+
+  it('validates pivot columns and relation types', async () => {
+    await expect(
+      loadIncludes([{ id: 1 }], League, [{ relation: 'teams', withPivot: ['secret'] }], mockExecutor())
+    ).rejects.toThrow(InvalidColumnError);
+    expect(() => createModelQuery(League).include('country', { wherePivot: { role: 'x' } })).toThrow(
+      QueryComposerError
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { loadIncludes } from '../../src/relations/loader';
+import { QueryComposerError } from '../../src/core/errors';
+import { mockExecutor } from '../helpers/mock-executor';
+
+const CommentSchema = z.object({
+  id: z.number(),
+  body: z.string(),
+  commentable_type: z.string(),
+  commentable_id: z.number(),
+});
+
+const Comment = defineModel({
+  name: 'Comment',
+  table: 'comments',
+  schema: CommentSchema,
+  relations: {
+    commentable: { type: 'morphTo', morphType: 'commentable_type', foreignKey: 'commentable_id' },
+    mapped: {
+      type: 'morphTo',
+      morphType: 'commentable_type',
+      foreignKey: 'commentable_id',
+      morphMap: { post: 'Post', video: 'Video' },
+    },
+  },
+});
+
+const Post = defineModel({
+  name: 'Post',
+  table: 'posts',
+  schema: z.object({ id: z.number(), title: z.string(), author_id: z.number() }),
+  relations: {
+    comments: {
+      type: 'morphMany',
+      target: 'comments',
+      morphType: 'commentable_type',
+      foreignKey: 'commentable_id',
+      primaryKey: 'id',
+    },
+    author: { type: 'belongsTo', target: 'authors', foreignKey: 'author_id', primaryKey: 'id' },
+  },
+});
+
+const Video = defineModel({
+  name: 'Video',
+  table: 'videos',
+  schema: z.object({ id: z.number(), url: z.string() }),
+  relations: {
+    comments: {
+      type: 'morphMany',
+      target: 'comments',
+      morphType: 'commentable_type',
+      foreignKey: 'commentable_id',
+      primaryKey: 'id',
+      morphValue: 'video',
+    },
+  },
+});
+
+defineModel({ name: 'PolyAuthor', table: 'authors', schema: z.object({ id: z.number(), name: z.string() }) });
+
+const COMMENTS = [
+  { id: 1, body: 'a', commentable_type: 'Post', commentable_id: 10 },
+  { id: 2, body: 'b', commentable_type: 'Video', commentable_id: 10 },
+  { id: 3, body: 'c', commentable_type: 'Post', commentable_id: 11 },
+  { id: 4, body: 'd', commentable_type: 'Post', commentable_id: 10 },
+];
+
+describe('morphTo', () => {
+  it('groups keys by type and runs one batch per target model', async () => {
+    const executor = mockExecutor({
+      posts: [{ id: 10, title: 'P10', author_id: 1 }, { id: 11, title: 'P11', author_id: 1 }],
+      videos: [{ id: 10, url: 'v10' }],
+    });
+    const rows = await loadIncludes(COMMENTS, Comment, [{ relation: 'commentable' }], executor);
+
+    expect(executor).toHaveBeenCalledTimes(2);
+    expect(executor.mock.calls[0][0]).toEqual({ text: 'SELECT * FROM posts WHERE id IN ($1, $2)', values: [10, 11] });
+    expect(executor.mock.calls[1][0]).toEqual({ text: 'SELECT * FROM videos WHERE id IN ($1)', values: [10] });
+    expect(rows.map((r) => r.commentable)).toEqual([
+      { id: 10, title: 'P10', author_id: 1 },
+      { id: 10, url: 'v10' },
+      { id: 11, title: 'P11', author_id: 1 },
+      { id: 10, title: 'P10', author_id: 1 },
+    ]);
+  });
+
+  it('maps stored type values through morphMap', async () => {
+    const executor = mockExecutor({ videos: [{ id: 5, url: 'v5' }] });
+    const rows = await loadIncludes(
+      [{ id: 1, commentable_type: 'video', commentable_id: 5 }, { id: 2, commentable_type: null, commentable_id: null }],
+      Comment,
+      [{ relation: 'mapped', alias: 'target' }],
+      executor
+    );
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(rows.map((r) => r.target)).toEqual([{ id: 5, url: 'v5' }, null]);
+  });
+
+  it('applies the query callback and nested includes per target model', async () => {
+    const executor = mockExecutor({
+      posts: [{ id: 10, title: 'P10', author_id: 1 }],
+      authors: [{ id: 1, name: 'Ann' }],
+    });
+    const rows = await createModelQuery(Comment)
+      .include('commentable', { query: (q) => q.where({ title: 'P10' }), include: [{ relation: 'author' }] })
+      .findAll(vi.fn().mockResolvedValueOnce([COMMENTS[0]]).mockImplementation(executor));
+
+    expect(executor.mock.calls[0][0].text).toBe('SELECT * FROM posts WHERE id IN ($1) AND title = $2');
+    expect((rows[0].commentable as Record<string, unknown>).author).toEqual({ id: 1, name: 'Ann' });
+  });
+
+  it('throws for unregistered types and SQL-embedded strategies', async () => {
+    const executor = mockExecutor({});
+    await expect(loadIncludes(
+      [{ id: 1, commentable_type: 'Photo', commentable_id: 1 }],
+      Comment,
+      [{ relation: 'commentable' }],
+      executor
+    )).rejects.toThrow("no model registered for type 'Photo'");
+    await expect(loadIncludes(COMMENTS, Comment, [{ relation: 'commentable', strategy: 'lateral' }], executor))
+      .rejects.toThrow(QueryComposerError);
+    expect(() => createModelQuery(Comment).include('commentable', { strategy: 'json' })).toThrow(QueryComposerError);
+    expect(() => createModelQuery(Comment).whereHas('commentable')).toThrow(QueryComposerError);
+  });
+});
+
+describe('morphMany', () => {
+  it('batch loads children filtered by the owner type', async () => {
+    const executor = mockExecutor({ comments: [COMMENTS[0], COMMENTS[2], COMMENTS[3]] });
+    const rows = await loadIncludes([{ id: 10 }, { id: 11 }, { id: 12 }], Post, [{ relation: 'comments' }], executor);
+
+    expect(executor.mock.calls[0][0]).toEqual({
+      text: 'SELECT * FROM comments WHERE commentable_id IN ($1, $2, $3) AND commentable_type = $4',
+      values: [10, 11, 12, 'Post'],
+    });
+    expect(rows.map((r) => (r.comments as unknown[]).length)).toEqual([2, 1, 0]);
+  });
+
+  it('uses morphValue when given', async () => {
+    const executor = mockExecutor({});
+    await loadIncludes([{ id: 10 }], Video, [{ relation: 'comments' }], executor);
+    expect(executor.mock.calls[0][0].values).toEqual([10, 'video']);
+  });
+
+  it('correlates with the owner type in SQL strategies', () => {
+    const { text, values } = createModelQuery(Post).whereHas('comments').withCount('comments').toParam();
+    expect(text).toBe(
+      'SELECT *, (SELECT COUNT(*) AS value FROM comments WHERE comments.commentable_id = posts.id ' +
+        'AND comments.commentable_type = $1) AS comments_count FROM posts WHERE EXISTS (SELECT 1 FROM comments ' +
+        'WHERE comments.commentable_id = posts.id AND comments.commentable_type = $2)'
+    );
+    expect(values).toEqual(['Post', 'Post']);
+  });
+
+  it('cannot be joined', () => {
+    expect(() => createModelQuery(Post).joinRelation('comments')).toThrow(QueryComposerError);
+  });
+});
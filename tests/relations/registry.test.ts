@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { createModelRegistry, getModel, getModelRegistry, defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { createRelationLoader, loadIncludes } from '../../src/relations/loader';
+import { validateModelRegistry } from '../../src/relations/validate';
+import type { ModelDefinition } from '../../src/relations/types';
+import { mockExecutor } from '../helpers/mock-executor';
+
+const LeagueSchema = z.object({ id: z.number(), name: z.string() });
+const PostSchema = z.object({ id: z.number(), league_id: z.number(), author_id: z.number() });
+const AuthorSchema = z.object({ id: z.number(), name: z.string() });
+
+function defineBlog(registry = createModelRegistry(), softDelete = false) {
+  const League = registry.defineModel({
+    name: 'League',
+    table: 'leagues',
+    schema: LeagueSchema,
+    relations: { posts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id' } },
+  });
+  registry.defineModel({
+    name: 'Post',
+    table: 'posts',
+    schema: PostSchema,
+    softDelete,
+    relations: { author: { type: 'belongsTo', target: 'authors', foreignKey: 'author_id', primaryKey: 'id' } },
+  });
+  registry.defineModel({ name: 'Author', table: 'authors', schema: AuthorSchema });
+  return { registry, League };
+}
+
+describe('createModelRegistry', () => {
+  it('keeps models out of the global registry and other registries', () => {
+    const a = defineBlog().registry;
+    const b = createModelRegistry();
+    b.defineModel({ name: 'League', table: 'other_leagues', schema: LeagueSchema });
+
+    expect(getModel('League')).toBeUndefined();
+    expect(a.getModel('League')?.table).toBe('leagues');
+    expect(b.getModel('League')?.table).toBe('other_leagues');
+    expect(a.getRelation('League', 'posts')?.type).toBe('hasMany');
+    expect(a.hasRelation('Post', 'league')).toBe(false);
+    expect(getModelRegistry(a.getModel('Post'))).toBe(a);
+
+    a.clear();
+    expect(a.getAllModels().size).toBe(0);
+    expect(b.getAllModels().size).toBe(1);
+  });
+
+  it('resolves nested includes and target default scopes in the model registry', async () => {
+    const { League } = defineBlog(createModelRegistry(), true);
+    const executor = mockExecutor({
+      leagues: [{ id: 1 }],
+      posts: [{ id: 10, league_id: 1, author_id: 5 }],
+      authors: [{ id: 5, name: 'Ann' }],
+    });
+
+    const leagues = await createModelQuery(League)
+      .include('posts', { include: [{ relation: 'author' }] })
+      .findAll(executor);
+
+    expect(executor.mock.calls[1][0].text).toBe(
+      'SELECT * FROM posts WHERE league_id IN ($1) AND posts.deleted_at IS NULL'
+    );
+    expect(leagues).toEqual([
+      { id: 1, posts: [{ id: 10, league_id: 1, author_id: 5, author: { id: 5, name: 'Ann' } }] },
+    ]);
+  });
+
+  it('accepts a registry for models defined elsewhere', async () => {
+    const { registry } = defineBlog(createModelRegistry(), true);
+    const League: ModelDefinition = {
+      name: 'League',
+      table: 'leagues',
+      schema: LeagueSchema,
+      relations: { posts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id' } },
+    };
+
+    expect(createModelQuery(League, { registry }).whereHas('posts').toParam().text).toBe(
+      'SELECT * FROM leagues WHERE EXISTS (SELECT 1 FROM posts WHERE posts.league_id = leagues.id' +
+        ' AND posts.deleted_at IS NULL)'
+    );
+
+    const executor = mockExecutor();
+    await loadIncludes([{ id: 1 }], League, [{ relation: 'posts' }], executor, registry);
+    expect(executor.mock.calls[0][0].text).toBe(
+      'SELECT * FROM posts WHERE league_id IN ($1) AND posts.deleted_at IS NULL'
+    );
+
+    const loaderExecutor = mockExecutor();
+    await createRelationLoader(League, 'posts', loaderExecutor, registry).load(1);
+    expect(loaderExecutor.mock.calls[0][0].text).toBe(
+      'SELECT * FROM posts WHERE league_id IN ($1) AND posts.deleted_at IS NULL'
+    );
+  });
+
+  it('resolves morphTo types in the registry', async () => {
+    const registry = createModelRegistry();
+    registry.defineModel({ name: 'Video', table: 'videos', schema: z.object({ id: z.number() }) });
+    const Comment = registry.defineModel({
+      name: 'Comment',
+      table: 'comments',
+      schema: z.object({ id: z.number(), commentable_type: z.string(), commentable_id: z.number() }),
+      relations: { commentable: { type: 'morphTo', morphType: 'commentable_type', foreignKey: 'commentable_id' } },
+    });
+    // Same model name in the global registry must not be picked up
+    defineModel({ name: 'Video', table: 'global_videos', schema: z.object({ id: z.number() }) });
+
+    const executor = mockExecutor([{ id: 3 }]);
+    const [comment] = await loadIncludes(
+      [{ id: 1, commentable_type: 'Video', commentable_id: 3 }],
+      Comment,
+      [{ relation: 'commentable' }],
+      executor
+    );
+    expect(executor.mock.calls[0][0].text).toBe('SELECT * FROM videos WHERE id IN ($1)');
+    expect(comment.commentable).toEqual({ id: 3 });
+  });
+
+  it('validates a registry', () => {
+    const { registry } = defineBlog();
+    expect(validateModelRegistry(registry)).toEqual({ valid: true, issues: [], cycles: [] });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { loadIncludes, batchLoadHasMany } from '../../src/relations/loader';
+import { scope } from '../../src/composition/scope';
+import { InvalidOperatorError } from '../../src/core/errors';
+import { mockExecutor } from '../helpers/mock-executor';
+
+const PostSchema = z.object({ id: z.number(), league_id: z.number(), status: z.string(), pinned: z.boolean() });
+const pinned = scope<typeof PostSchema>((q) => q.where({ pinned: true }));
+
+const League = defineModel({
+  name: 'ScopedLeague',
+  table: 'leagues',
+  schema: z.object({ id: z.number(), name: z.string() }),
+  relations: {
+    activePosts: {
+      type: 'hasMany',
+      target: 'posts',
+      foreignKey: 'league_id',
+      primaryKey: 'id',
+      where: { status: 'active' },
+      orderBy: ['-created_at'],
+    },
+    pinnedPosts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id', scope: [pinned] },
+    recentPosts: {
+      type: 'hasMany',
+      target: 'posts',
+      foreignKey: 'league_id',
+      primaryKey: 'id',
+      where: { id__gt: 100, status__in: ['active', 'draft'] },
+    },
+    badPosts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id', where: { status__nope: 1 } },
+  },
+});
+
+defineModel({ name: 'ScopedPost', table: 'posts', schema: PostSchema });
+
+describe('relation constraints', () => {
+  it('applies where and default order to batch includes', async () => {
+    const executor = mockExecutor();
+    await loadIncludes([{ id: 1 }], League, [{ relation: 'activePosts' }], executor);
+    expect(executor.mock.calls[0][0]).toEqual({
+      text: 'SELECT * FROM posts WHERE league_id IN ($1) AND posts.status = $2 ORDER BY created_at DESC',
+      values: [1, 'active'],
+    });
+  });
+
+  it("lets an include's orderBy replace the default order", async () => {
+    const executor = mockExecutor();
+    await createModelQuery(League)
+      .include('activePosts', { orderBy: ['id'], query: (q) => q.where({ pinned: true }) })
+      .findAll(vi.fn().mockResolvedValueOnce([{ id: 1 }]).mockImplementation(executor));
+    expect(executor.mock.calls[0][0].text).toBe(
+      'SELECT * FROM posts WHERE league_id IN ($1) AND posts.status = $2 AND pinned = $3 ORDER BY id ASC'
+    );
+  });
+
+  it('applies scope objects', () => {
+    expect(batchLoadHasMany(League, 'pinnedPosts', ['1']).query).toEqual({
+      text: 'SELECT * FROM posts WHERE league_id IN ($1) AND pinned = $2',
+      values: ['1', true],
+    });
+  });
+
+  it('supports operators in relation filters', () => {
+    expect(batchLoadHasMany(League, 'recentPosts', ['1']).query).toEqual({
+      text: 'SELECT * FROM posts WHERE league_id IN ($1) AND posts.id > $2 AND posts.status IN ($3, $4)',
+      values: ['1', 100, 'active', 'draft'],
+    });
+  });
+
+  it('constrains whereHas, relation-path filters and aggregates without ordering', () => {
+    const { text, values } = createModelQuery(League)
+      .whereHas('activePosts')
+      .where({ activePosts__id__gt: 5 })
+      .withCount('activePosts')
+      .toParam();
+    expect(text).toBe(
+      'SELECT *, (SELECT COUNT(*) AS value FROM posts WHERE posts.league_id = leagues.id AND posts.status = $1) ' +
+        'AS activePosts_count FROM leagues ' +
+        'WHERE EXISTS (SELECT 1 FROM posts WHERE posts.league_id = leagues.id AND posts.status = $2) ' +
+        'AND EXISTS (SELECT 1 FROM posts WHERE posts.league_id = leagues.id AND posts.status = $3 AND posts.id > $4)'
+    );
+    expect(values).toEqual(['active', 'active', 'active', 5]);
+  });
+
+  it('applies constraints and default order to lateral and json includes', async () => {
+    const { text } = createModelQuery(League).include('activePosts', { strategy: 'json' }).toParam();
+    expect(text).toContain(
+      '(SELECT * FROM posts WHERE posts.league_id = leagues.id AND posts.status = $1 ORDER BY created_at DESC) __row'
+    );
+
+    const executor = mockExecutor();
+    await loadIncludes([{ id: 1 }], League, [{ relation: 'pinnedPosts', strategy: 'lateral' }], executor);
+    expect(executor.mock.calls[0][0].text).toContain(
+      'WHERE posts.league_id = leagues.id AND pinned = $1) __related'
+    );
+  });
+
+  it('rejects invalid relation filters', () => {
+    expect(() => createModelQuery(League).whereHas('badPosts')).toThrow(InvalidOperatorError);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { loadIncludes } from '../../src/relations/loader';
+import { scope } from '../../src/composition/scope';
+import { QueryComposerError, UnfilteredDeleteError } from '../../src/core/errors';
+import { mockExecutor } from '../helpers/mock-executor';
+
+const PostSchema = z.object({ id: z.number(), league_id: z.number(), status: z.string() });
+
+const League = defineModel({
+  name: 'TrashLeague',
+  table: 'leagues',
+  schema: z.object({ id: z.number(), name: z.string() }),
+  relations: {
+    posts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id' },
+    allPosts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id', withoutScopes: ['softDelete'] },
+  },
+});
+
+const Post = defineModel({
+  name: 'TrashPost',
+  table: 'posts',
+  schema: PostSchema,
+  softDelete: true,
+  defaultScopes: {
+    published: scope<typeof PostSchema>((q) => q.where({ status: 'published' })),
+  },
+});
+
+const Archive = defineModel({
+  name: 'TrashArchive',
+  table: 'archives',
+  schema: z.object({ id: z.number(), removed_at: z.string() }),
+  softDelete: 'removed_at',
+});
+
+describe('default scopes and soft deletes', () => {
+  it('filters deleted rows and applies default scopes', () => {
+    expect(createModelQuery(Post).where({ id: 1 }).toParam()).toEqual({
+      text: 'SELECT * FROM posts WHERE id = $1 AND posts.deleted_at IS NULL AND status = $2',
+      values: [1, 'published'],
+    });
+    expect(createModelQuery(Archive).toCountParam().text).toBe(
+      'SELECT COUNT(*) AS total FROM archives WHERE archives.removed_at IS NULL'
+    );
+  });
+
+  it('supports withTrashed, onlyTrashed and withoutScope', () => {
+    expect(createModelQuery(Post).withTrashed().toParam().text).toBe('SELECT * FROM posts WHERE status = $1');
+    expect(createModelQuery(Post).onlyTrashed().withoutScope('published').toParam().text).toBe(
+      'SELECT * FROM posts WHERE posts.deleted_at IS NOT NULL'
+    );
+  });
+
+  it('keeps scopes out of the stored state and copies them on clone', () => {
+    const query = createModelQuery(Post).withoutScope('published');
+    query.toParam();
+    expect(query.clone().toParam().text).toBe('SELECT * FROM posts WHERE posts.deleted_at IS NULL');
+  });
+
+  it('scopes UPDATE and DELETE queries', () => {
+    expect(createModelQuery(Post).where({ id: 1 }).toUpdate({ status: 'draft' }).toParam()).toEqual({
+      text: 'UPDATE posts SET status = $1 WHERE id = $2 AND posts.deleted_at IS NULL AND status = $3',
+      values: ['draft', 1, 'published'],
+    });
+    expect(createModelQuery(Post).onlyTrashed().where({ id: 1 }).toDelete().toParam()).toEqual({
+      text: 'DELETE FROM posts WHERE id = $1 AND status = $2 AND posts.deleted_at IS NOT NULL',
+      values: [1, 'published'],
+    });
+    // Scope conditions alone don't satisfy the unfiltered-delete guard
+    expect(() => createModelQuery(Archive).toDelete()).toThrow(UnfilteredDeleteError);
+    expect(() => createModelQuery(Post).onlyTrashed().toDelete()).toThrow(UnfilteredDeleteError);
+    expect(createModelQuery(Archive).toDelete({ allowUnfiltered: true }).toParam().text).toBe(
+      'DELETE FROM archives WHERE archives.removed_at IS NULL'
+    );
+  });
+
+  it('rejects unknown scopes and soft-delete helpers on models without soft deletes', () => {
+    expect(() => createModelQuery(Post).withoutScope('missing')).toThrow(
+      "Model 'TrashPost' has no default scope 'missing'"
+    );
+    expect(() => createModelQuery(League).onlyTrashed()).toThrow(QueryComposerError);
+    expect(() =>
+      defineModel({ name: 'Bad', table: 'bad', schema: PostSchema, defaultScopes: { softDelete: scope((q) => q) } })
+    ).toThrow(QueryComposerError);
+  });
+
+  it('applies target default scopes to includes unless the relation opts out', async () => {
+    const executor = mockExecutor();
+    await loadIncludes([{ id: 1 }], League, [{ relation: 'posts' }, { relation: 'allPosts' }], executor);
+    expect(executor.mock.calls[0][0].text).toBe(
+      'SELECT * FROM posts WHERE league_id IN ($1) AND posts.deleted_at IS NULL AND status = $2'
+    );
+    expect(executor.mock.calls[1][0].text).toBe('SELECT * FROM posts WHERE league_id IN ($1) AND status = $2');
+  });
+
+  it('applies target default scopes to whereHas and aggregates', () => {
+    const { text } = createModelQuery(League).whereHas('posts').withCount('posts').toParam();
+    expect(text).toBe(
+      'SELECT *, (SELECT COUNT(*) AS value FROM posts WHERE posts.league_id = leagues.id' +
+        ' AND posts.deleted_at IS NULL AND status = $1) AS posts_count FROM leagues' +
+        ' WHERE EXISTS (SELECT 1 FROM posts WHERE posts.league_id = leagues.id' +
+        ' AND posts.deleted_at IS NULL AND status = $2)'
+    );
+  });
+});
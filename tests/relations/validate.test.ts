@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { clearModelRegistry, defineModel } from '../../src/relations/define';
+import { validateModelRegistry } from '../../src/relations/validate';
+import type { ModelDefinition } from '../../src/relations/types';
+
+function registry(...models: ModelDefinition[]): Map<string, ModelDefinition> {
+  return new Map(models.map((model) => [model.name, model]));
+}
+
+const LeagueSchema = z.object({ id: z.number(), name: z.string(), country_id: z.number().nullable() });
+const PostSchema = z.object({ id: z.number(), league_id: z.number(), deleted_at: z.date().nullable() });
+
+describe('validateModelRegistry', () => {
+  beforeEach(() => clearModelRegistry());
+
+  it('reports a consistent registry as valid', () => {
+    defineModel({
+      name: 'League',
+      table: 'leagues',
+      schema: LeagueSchema,
+      relations: { posts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id' } },
+    });
+    defineModel({
+      name: 'Post',
+      table: 'posts',
+      schema: PostSchema,
+      softDelete: true,
+      relations: { league: { type: 'belongsTo', target: 'leagues', foreignKey: 'league_id', primaryKey: 'id' } },
+    });
+
+    expect(validateModelRegistry()).toEqual({ valid: true, issues: [], cycles: [] });
+  });
+
+  it('treats always-whitelisted columns as present', () => {
+    const League: ModelDefinition = {
+      name: 'League',
+      table: 'leagues',
+      schema: z.object({ name: z.string() }),
+      relations: { posts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id' } },
+    };
+    const Post: ModelDefinition = {
+      name: 'Post',
+      table: 'posts',
+      schema: z.object({ id: z.number(), league_id: z.number() }),
+      softDelete: true,
+    };
+
+    expect(validateModelRegistry(registry(League, Post)).issues).toEqual([]);
+  });
+
+  it('reports dangling targets, missing columns and type mismatches', () => {
+    const League: ModelDefinition = {
+      name: 'League',
+      table: 'leagues',
+      schema: LeagueSchema,
+      relations: {
+        country: { type: 'belongsTo', target: 'countries', foreignKey: 'country_id', primaryKey: 'id' },
+        posts: { type: 'hasMany', target: 'posts', foreignKey: 'leagueId', primaryKey: 'id' },
+        slugPosts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'name' },
+      },
+    };
+    const Post: ModelDefinition = { name: 'Post', table: 'posts', schema: PostSchema };
+
+    const report = validateModelRegistry(registry(League, Post));
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      {
+        code: 'dangling_target',
+        model: 'League',
+        relation: 'country',
+        message: "Relation target 'countries' has no registered model",
+      },
+      {
+        code: 'missing_column',
+        model: 'League',
+        relation: 'posts',
+        column: 'posts.leagueId',
+        message: "Column 'leagueId' not found on 'posts'",
+      },
+      {
+        code: 'type_mismatch',
+        model: 'League',
+        relation: 'slugPosts',
+        column: 'posts.league_id',
+        message: "Type of posts.league_id (number) doesn't match leagues.name (string)",
+      },
+    ]);
+  });
+
+  it('checks composite keys, pivot tables and the soft-delete column', () => {
+    const Team: ModelDefinition = {
+      name: 'Team',
+      table: 'teams',
+      schema: z.object({ id: z.number() }),
+      softDelete: 'removed_at',
+    };
+    const League: ModelDefinition = {
+      name: 'League',
+      table: 'leagues',
+      schema: LeagueSchema,
+      relations: {
+        teams: {
+          type: 'hasManyThrough',
+          target: 'teams',
+          through: 'league_teams',
+          foreignKey: 'league_id',
+          throughForeignKey: 'team_id',
+          primaryKey: 'id',
+          throughPrimaryKey: 'id',
+          throughSchema: z.object({ league_id: z.string(), team_id: z.number() }),
+          withPivot: ['role'],
+        },
+        tenantPosts: { type: 'hasMany', target: 'teams', foreignKey: ['tenant_id', 'league_id'], primaryKey: 'id' },
+      },
+    };
+
+    expect(validateModelRegistry(registry(Team, League)).issues.map((issue) => [issue.code, issue.column])).toEqual([
+      ['missing_column', 'teams.removed_at'],
+      ['type_mismatch', 'league_teams.league_id'],
+      ['missing_column', 'league_teams.role'],
+      ['key_mismatch', undefined],
+    ]);
+  });
+
+  it('checks morphMap entries against registered models', () => {
+    const Comment: ModelDefinition = {
+      name: 'Comment',
+      table: 'comments',
+      schema: z.object({ id: z.number(), commentable_type: z.string(), commentable_id: z.number() }),
+      relations: {
+        commentable: {
+          type: 'morphTo',
+          morphType: 'commentable_type',
+          foreignKey: 'commentable_id',
+          morphMap: { post: 'Post', video: 'Video' },
+        },
+      },
+    };
+    const Post: ModelDefinition = { name: 'Post', table: 'posts', schema: z.object({ id: z.string() }) };
+
+    expect(validateModelRegistry(registry(Comment, Post)).issues.map((issue) => issue.message)).toEqual([
+      "Type of comments.commentable_id (number) doesn't match posts.id (string)",
+      "morphMap type 'video' refers to unregistered model 'Video'",
+    ]);
+  });
+
+  it('lists belongsTo cycles without failing validation', () => {
+    const Employee: ModelDefinition = {
+      name: 'Employee',
+      table: 'employees',
+      schema: z.object({ id: z.number(), manager_id: z.number(), department_id: z.number() }),
+      relations: {
+        manager: { type: 'belongsTo', target: 'employees', foreignKey: 'manager_id', primaryKey: 'id' },
+        department: { type: 'belongsTo', target: 'departments', foreignKey: 'department_id', primaryKey: 'id' },
+      },
+    };
+    const Department: ModelDefinition = {
+      name: 'Department',
+      table: 'departments',
+      schema: z.object({ id: z.number(), head_id: z.number() }),
+      relations: { head: { type: 'belongsTo', target: 'employees', foreignKey: 'head_id', primaryKey: 'id' } },
+    };
+
+    const report = validateModelRegistry(registry(Employee, Department));
+    expect(report.valid).toBe(true);
+    expect(report.cycles).toEqual([
+      ['Employee', 'Employee'],
+      ['Employee', 'Department', 'Employee'],
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import {
+  InvalidColumnError,
+  InvalidOperatorError,
+  QueryComposerError,
+  RelationNotFoundError,
+} from '../../src/core/errors';
+
+const League = defineModel({
+  name: 'HasLeague',
+  table: 'has_leagues',
+  schema: z.object({ id: z.number(), name: z.string(), country_id: z.number(), status: z.string() }),
+  relations: {
+    posts: { type: 'hasMany', target: 'has_posts', foreignKey: 'league_id', primaryKey: 'id' },
+    country: { type: 'belongsTo', target: 'has_countries', foreignKey: 'country_id', primaryKey: 'id' },
+    teams: {
+      type: 'hasManyThrough',
+      target: 'has_teams',
+      through: 'has_league_teams',
+      foreignKey: 'league_id',
+      throughForeignKey: 'team_id',
+      primaryKey: 'id',
+      throughPrimaryKey: 'id',
+    },
+    // Relation named like a column — the column wins in where()
+    status: { type: 'belongsTo', target: 'has_statuses', foreignKey: 'status', primaryKey: 'code' },
+  },
+});
+
+defineModel({
+  name: 'HasPost',
+  table: 'has_posts',
+  schema: z.object({ id: z.number(), league_id: z.number(), author_id: z.number(), published: z.boolean() }),
+  relations: {
+    author: { type: 'belongsTo', target: 'has_authors', foreignKey: 'author_id', primaryKey: 'id' },
+  },
+});
+
+defineModel({ name: 'HasAuthor', table: 'has_authors', schema: z.object({ id: z.number(), name: z.string() }) });
+
+describe('where() with relation paths', () => {
+  it('filters a belongsTo relation through EXISTS', () => {
+    const { text, values } = createModelQuery(League)
+      .where({ country__name__icontains: 'land' })
+      .toParam();
+    expect(text).toBe(
+      'SELECT * FROM has_leagues WHERE EXISTS (SELECT 1 FROM has_countries ' +
+        'WHERE has_countries.id = has_leagues.country_id AND has_countries.name ILIKE $1)'
+    );
+    expect(values).toEqual(['%land%']);
+  });
+
+  it('keeps plain filters and relation filters in key order', () => {
+    const { text, values } = createModelQuery(League)
+      .where({ name: 'A', posts__published: true, id__gt: 3 })
+      .toParam();
+    expect(text).toBe(
+      'SELECT * FROM has_leagues WHERE name = $1 AND EXISTS (SELECT 1 FROM has_posts ' +
+        'WHERE has_posts.league_id = has_leagues.id AND has_posts.published = $2) AND id > $3'
+    );
+    expect(values).toEqual(['A', true, 3]);
+  });
+
+  it('nests EXISTS for multi-hop paths', () => {
+    const { text, values } = createModelQuery(League)
+      .where({ posts__author__name__in: ['Ann', 'Bob'] })
+      .toParam();
+    expect(text).toBe(
+      'SELECT * FROM has_leagues WHERE EXISTS (SELECT 1 FROM has_posts WHERE has_posts.league_id = has_leagues.id ' +
+        'AND EXISTS (SELECT 1 FROM has_authors WHERE has_authors.id = has_posts.author_id ' +
+        'AND has_authors.name IN ($1, $2)))'
+    );
+    expect(values).toEqual(['Ann', 'Bob']);
+  });
+
+  it('joins the pivot for hasManyThrough', () => {
+    const { text } = createModelQuery(League).where({ teams__name: 'Reds' }).toParam();
+    expect(text).toBe(
+      'SELECT * FROM has_leagues WHERE EXISTS (SELECT 1 FROM has_teams ' +
+        'INNER JOIN has_league_teams ON (has_teams.id = has_league_teams.team_id) ' +
+        'WHERE has_league_teams.league_id = has_leagues.id AND has_teams.name = $1)'
+    );
+  });
+
+  it('prefers model columns over same-named relations', () => {
+    const { text } = createModelQuery(League).where({ status__in: ['a'] }).toParam();
+    expect(text).toBe('SELECT * FROM has_leagues WHERE status IN ($1)');
+  });
+
+  it('skips undefined values', () => {
+    const { text } = createModelQuery(League).where({ country__name: undefined }).toParam();
+    expect(text).toBe('SELECT * FROM has_leagues');
+  });
+
+  it('rejects paths without a column and unknown operators', () => {
+    expect(() => createModelQuery(League).where({ posts__author: 1 })).toThrow(QueryComposerError);
+    expect(() => createModelQuery(League).where({ country__name__bogus: 1 })).toThrow(InvalidOperatorError);
+  });
+
+  it("checks the column against the target's schema", () => {
+    expect(() => createModelQuery(League).where({ posts__author__email: 'a@b.c' })).toThrow(
+      "Invalid column 'email'. Allowed columns: id, name, created_at, updated_at, deleted_at"
+    );
+    expect(() => createModelQuery(League).where({ posts__title__icontains: 'x' })).toThrow(InvalidColumnError);
+    // Always-whitelisted columns pass
+    expect(createModelQuery(League).where({ posts__created_at__gte: '2024-01-01' }).toParam().text).toContain(
+      'has_posts.created_at >= $1'
+    );
+  });
+});
+
+describe('whereHas() / whereDoesntHave()', () => {
+  it('generates EXISTS from the relation keys', () => {
+    const { text } = createModelQuery(League).whereHas('posts').toParam();
+    expect(text).toBe(
+      'SELECT * FROM has_leagues WHERE EXISTS (SELECT 1 FROM has_posts WHERE has_posts.league_id = has_leagues.id)'
+    );
+  });
+
+  it('applies the callback to the related query', () => {
+    const { text, values } = createModelQuery(League)
+      .where({ name: 'A' })
+      .whereHas('posts', (q) => q.where({ published: true }))
+      .toParam();
+    expect(text).toBe(
+      'SELECT * FROM has_leagues WHERE name = $1 AND EXISTS (SELECT 1 FROM has_posts ' +
+        'WHERE has_posts.league_id = has_leagues.id AND published = $2)'
+    );
+    expect(values).toEqual(['A', true]);
+  });
+
+  it('follows dotted paths and applies the callback innermost', () => {
+    const { text } = createModelQuery(League)
+      .whereHas('posts.author', (q) => q.where({ name: 'Ann' }))
+      .toParam();
+    expect(text).toContain(
+      'EXISTS (SELECT 1 FROM has_authors WHERE has_authors.id = has_posts.author_id AND name = $1)'
+    );
+  });
+
+  it('generates NOT EXISTS', () => {
+    const { text } = createModelQuery(League).whereDoesntHave('country').toParam();
+    expect(text).toBe(
+      'SELECT * FROM has_leagues WHERE NOT EXISTS (SELECT 1 FROM has_countries ' +
+        'WHERE has_countries.id = has_leagues.country_id)'
+    );
+  });
+
+  it('throws for unknown relations', () => {
+    expect(() => createModelQuery(League).whereHas('missing')).toThrow(RelationNotFoundError);
+    expect(() => createModelQuery(League).whereHas('posts.missing')).toThrow("'missing' not found on model 'HasPost'");
+  });
+});
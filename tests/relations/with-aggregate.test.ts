@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { defineModel } from '../../src/relations/define';
+import { createModelQuery } from '../../src/relations/include';
+import { RelationNotFoundError } from '../../src/core/errors';
+
+const League = defineModel({
+  name: 'AggLeague',
+  table: 'leagues',
+  schema: z.object({ id: z.number(), name: z.string() }),
+  relations: {
+    posts: { type: 'hasMany', target: 'posts', foreignKey: 'league_id', primaryKey: 'id' },
+    teams: {
+      type: 'hasManyThrough',
+      target: 'teams',
+      through: 'league_teams',
+      foreignKey: 'league_id',
+      throughForeignKey: 'team_id',
+      primaryKey: 'id',
+      throughPrimaryKey: 'id',
+    },
+  },
+});
+
+defineModel({
+  name: 'AggPost',
+  table: 'posts',
+  schema: z.object({ id: z.number(), league_id: z.number(), views: z.number(), status: z.string() }),
+});
+
+describe('relation aggregates', () => {
+  it('selects a correlated count aliased <relation>_count', () => {
+    const { text, values } = createModelQuery(League).withCount('posts').toParam();
+    expect(text).toBe(
+      'SELECT *, (SELECT COUNT(*) AS value FROM posts WHERE posts.league_id = leagues.id) AS posts_count FROM leagues'
+    );
+    expect(values).toEqual([]);
+  });
+
+  it('filters related rows and numbers parameters in place', () => {
+    const { text, values } = createModelQuery(League)
+      .select(['id', 'name'])
+      .withCount('posts', (q) => q.where({ status: 'published' }))
+      .where({ name: 'A' })
+      .toParam();
+    expect(text).toBe(
+      'SELECT id, name, (SELECT COUNT(*) AS value FROM posts WHERE posts.league_id = leagues.id AND status = $1) ' +
+        'AS posts_count FROM leagues WHERE name = $2'
+    );
+    expect(values).toEqual(['published', 'A']);
+  });
+
+  it('supports sum/avg/max/min over a qualified column', () => {
+    const { text } = createModelQuery(League)
+      .withSum('posts', 'views')
+      .withAvg('posts', 'views')
+      .withMax('posts', 'views')
+      .withMin('posts', 'views')
+      .toParam();
+    expect(text).toContain('(SELECT SUM(posts.views) AS value FROM posts WHERE posts.league_id = leagues.id) AS posts_sum_views');
+    expect(text).toContain('AVG(posts.views) AS value FROM posts WHERE posts.league_id = leagues.id) AS posts_avg_views');
+    expect(text).toContain('MAX(posts.views) AS value FROM posts WHERE posts.league_id = leagues.id) AS posts_max_views');
+    expect(text).toContain('MIN(posts.views) AS value FROM posts WHERE posts.league_id = leagues.id) AS posts_min_views');
+  });
+
+  it('accepts an alias so one relation can be counted twice', () => {
+    const { text } = createModelQuery(League)
+      .withCount('posts')
+      .withCount('posts', { alias: 'published_count', query: (q) => q.where({ status: 'published' }) })
+      .toParam();
+    expect(text).toContain('AS posts_count,');
+    expect(text).toContain('AND status = $1) AS published_count FROM leagues');
+  });
+
+  it('joins the pivot table for hasManyThrough', () => {
+    const { text } = createModelQuery(League).withCount('teams').toParam();
+    expect(text).toBe(
+      'SELECT *, (SELECT COUNT(*) AS value FROM teams INNER JOIN league_teams ON (teams.id = league_teams.team_id) ' +
+        'WHERE league_teams.league_id = leagues.id) AS teams_count FROM leagues'
+    );
+  });
+
+  it('validates relations and columns', () => {
+    expect(() => createModelQuery(League).withCount('missing')).toThrow(RelationNotFoundError);
+    expect(() => createModelQuery(League).withSum('posts', 'views; --')).toThrow('Unsafe SQL identifier');
+  });
+});
@@ -2,7 +2,8 @@ import { describe, it, expect } from 'vitest';
 import * as z from 'zod';
 import { QueryComposer } from '../../src/core/query-composer';
 import { subquery } from '../../src/subquery/builder';
-import { exists, notExists } from '../../src/subquery/exists';
+import { exists, notExists, lateral } from '../../src/subquery/exists';
+import { QueryComposerError } from '../../src/core/errors';
 
 const PostSchema = z.object({
   id: z.string(),
@@ -101,3 +102,39 @@ describe('Correlated subqueries', () => {
     expect(text).toContain('approved');
   });
 });
+
+describe('LATERAL joins', () => {
+  const recent = () =>
+    subquery(CommentSchema, 'comments')
+      .whereRaw('comments.post_id = posts.id')
+      .where({ approved: true })
+      .orderBy('-id')
+      .paginate({ limit: 3 });
+
+  it('renders LEFT JOIN LATERAL with renumbered parameters', () => {
+    const qc = new QueryComposer(PostSchema, 'posts', { strict: false })
+      .joinLateral(lateral(recent(), 'recent'))
+      .where({ status: 'published' });
+
+    const { text, values } = qc.toParam();
+    expect(text).toBe(
+      'SELECT * FROM posts LEFT JOIN LATERAL (SELECT * FROM comments WHERE comments.post_id = posts.id ' +
+        'AND approved = $1 ORDER BY id DESC LIMIT $2 OFFSET $3) recent ON (TRUE) WHERE status = $4'
+    );
+    expect(values).toEqual([true, 3, 0, 'published']);
+  });
+
+  it('supports inner lateral joins with a custom condition', () => {
+    const qc = new QueryComposer(PostSchema, 'posts', { strict: false })
+      .joinLateral(lateral(recent(), 'recent'), { type: 'inner', on: 'recent.id IS NOT NULL' });
+    expect(qc.toParam().text).toContain('INNER JOIN LATERAL (');
+    expect(qc.toParam().text).toContain(') recent ON (recent.id IS NOT NULL)');
+  });
+
+  it('is rejected by UPDATE and DELETE', () => {
+    const qc = new QueryComposer(PostSchema, 'posts', { strict: false })
+      .joinLateral(lateral(recent(), 'recent'), { type: 'inner' })
+      .where({ status: 'draft' });
+    expect(() => qc.toDelete()).toThrow(QueryComposerError);
+  });
+});